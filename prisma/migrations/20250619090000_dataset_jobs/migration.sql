@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "DatasetJob" (
+    "id" TEXT NOT NULL,
+    "snapshot_id" TEXT NOT NULL,
+    "dataset_id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "urls" TEXT[],
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "error" TEXT,
+    "result" JSONB,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DatasetJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DatasetJob_snapshot_id_key" ON "DatasetJob"("snapshot_id");
+
+-- CreateIndex
+CREATE INDEX "DatasetJob_status_idx" ON "DatasetJob"("status");
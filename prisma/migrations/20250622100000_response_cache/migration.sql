@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "CacheEntry" (
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "storedAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CacheEntry_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "CacheEntry_expiresAt_idx" ON "CacheEntry"("expiresAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "externalId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Product_userId_platform_externalId_idx" ON "Product"("userId", "platform", "externalId");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "ParserHealthSample" (
+    "id" TEXT NOT NULL,
+    "platform" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "results" INTEGER NOT NULL,
+    "completeness" DOUBLE PRECISION NOT NULL,
+    "fields" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ParserHealthSample_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ParserHealthSample_platform_kind_createdAt_idx" ON "ParserHealthSample"("platform", "kind", "createdAt");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "StockSnapshot" (
+    "id" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "quantity" INTEGER,
+    "variants" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "productId" TEXT,
+
+    CONSTRAINT "StockSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockSnapshot_productId_createdAt_idx" ON "StockSnapshot"("productId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "StockSnapshot" ADD CONSTRAINT "StockSnapshot_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	isInStock,
+	normalizeAvailability,
+	variantAvailability,
+} from "./availability.js";
+
+describe("normalizeAvailability", () => {
+	it.each([
+		["In Stock", "in_stock"],
+		["InStock", "in_stock"],
+		["Add to Cart", "in_stock"],
+		["Delivering to 30301", "in_stock"],
+		["Currently unavailable.", "out_of_stock"],
+		[
+			"Temporarily out of stock. Order now and we'll deliver when available.",
+			"out_of_stock",
+		],
+		["OutOfStock", "out_of_stock"],
+		["SoldOut", "out_of_stock"],
+		["PreOrder", "preorder"],
+		["Available for pre-order", "preorder"],
+		["LimitedAvailability", "low_stock"],
+		["", "unknown"],
+		["Algunas tallas están agotadas", "unknown"],
+	])("reads %j as %s", (text, status) => {
+		expect(normalizeAvailability(text)).toEqual({ status });
+	});
+
+	it("keeps the quantity a page states", () => {
+		expect(
+			normalizeAvailability("Only 3 left in stock - order soon.")
+		).toEqual({ quantity: 3, status: "low_stock" });
+		expect(normalizeAvailability("Last one")).toEqual({
+			quantity: 1,
+			status: "low_stock",
+		});
+		expect(normalizeAvailability("More than 10 available")).toEqual({
+			quantity: 10,
+			status: "in_stock",
+		});
+		expect(normalizeAvailability("0 available")).toEqual({
+			quantity: 0,
+			status: "out_of_stock",
+		});
+	});
+
+	it("reads in-stock flags", () => {
+		expect(normalizeAvailability(true)).toEqual({ status: "in_stock" });
+		expect(normalizeAvailability(false)).toEqual({
+			status: "out_of_stock",
+		});
+		expect(normalizeAvailability(undefined)).toEqual({
+			status: "unknown",
+		});
+	});
+});
+
+describe("isInStock", () => {
+	it("treats low stock as buyable and preorders as not yet", () => {
+		expect(isInStock("low_stock")).toBe(true);
+		expect(isInStock("preorder")).toBe(false);
+		expect(isInStock("unknown")).toBeUndefined();
+	});
+});
+
+describe("variantAvailability", () => {
+	it("maps the available flag of each variant", () => {
+		expect(
+			variantAvailability([
+				{ available: true, name: "S" },
+				{ available: false, name: "M" },
+				{ name: "L" },
+			])
+		).toEqual([
+			{ name: "S", status: "in_stock" },
+			{ name: "M", status: "out_of_stock" },
+			{ name: "L", status: "unknown" },
+		]);
+	});
+});
@@ -0,0 +1,123 @@
+export const STOCK_STATUSES = [
+	"in_stock",
+	"low_stock",
+	"out_of_stock",
+	"preorder",
+	"unknown",
+] as const;
+
+/**
+ * At or below this many units, a page that states a quantity ("3
+ * available") is low on stock.
+ */
+export const LOW_STOCK_QUANTITY = 5;
+
+export interface Availability {
+	quantity?: number;
+	status: StockStatus;
+}
+
+export type StockStatus = (typeof STOCK_STATUSES)[number];
+
+export interface VariantAvailability {
+	name: string;
+	status: StockStatus;
+}
+
+/**
+ * Whether a status means the item can be bought now; `undefined` when it
+ * isn't known.
+ */
+export function isInStock(status: StockStatus | undefined) {
+	if (status === "in_stock" || status === "low_stock") return true;
+	if (status === "out_of_stock" || status === "preorder") return false;
+	return undefined;
+}
+
+/**
+ * Reads a stock status, and a quantity when the page states one, from
+ * free-text availability ("Only 3 left in stock", "Currently
+ * unavailable"), a schema.org enum as kept by structured data
+ * (`OutOfStock`, `PreOrder`) or an in-stock flag.
+ */
+export function normalizeAvailability(value: unknown): Availability {
+	if (typeof value === "boolean") {
+		return { status: value ? "in_stock" : "out_of_stock" };
+	}
+	if (typeof value !== "string" || !value.trim()) {
+		return { status: "unknown" };
+	}
+
+	const text = value
+		.replace(/([a-z])([A-Z])/g, "$1 $2")
+		.toLowerCase()
+		.replace(/\s+/g, " ")
+		.trim();
+
+	if (/\bpre[ -]?(order|sale)\b|\bcoming soon\b/.test(text)) {
+		return { status: "preorder" };
+	}
+	if (
+		/\b(out of stock|not in stock|sold out|unavailable|not available|no longer available|discontinued|back ?order(ed)?)\b/.test(
+			text
+		)
+	) {
+		return { status: "out_of_stock" };
+	}
+
+	const quantity = quantityOf(text);
+	if (quantity !== undefined) {
+		return {
+			quantity,
+			status:
+				quantity === 0
+					? "out_of_stock"
+					: /\bleft\b/.test(text) || quantity <= LOW_STOCK_QUANTITY
+						? "low_stock"
+						: "in_stock",
+		};
+	}
+	if (
+		/\b(limited (availability|stock|quantities)|low stock|few left|almost gone|selling fast)\b/.test(
+			text
+		)
+	) {
+		return { status: "low_stock" };
+	}
+	if (
+		/\b(in stock|available|add to (cart|basket|bag)|buy now|ships|shipping|deliver(s|y|ing)?|pick ?up|online only|in store only|made to order)\b/.test(
+			text
+		)
+	) {
+		return { status: "in_stock" };
+	}
+
+	return { status: "unknown" };
+}
+
+/**
+ * The stock status of each variant, from the `available` flag the parsers
+ * and dataset mappers set.
+ */
+export function variantAvailability(
+	variants: Array<{ available?: boolean; name: string }> | undefined
+): VariantAvailability[] {
+	return (variants ?? [])
+		.filter((variant) => typeof variant?.name === "string" && variant.name)
+		.map((variant) => ({
+			name: variant.name,
+			status: normalizeAvailability(variant.available).status,
+		}));
+}
+
+/**
+ * "Only 3 left", "3 available", "More than 10 available", "Last one".
+ */
+function quantityOf(text: string) {
+	if (/\blast (one|item)\b/.test(text)) return 1;
+	const match =
+		/\b(\d+)\+? (?:(?:items?|units?|pieces?) )?(?:left|available|in stock|remaining)\b/.exec(
+			text
+		);
+	return match ? Number(match[1]) : undefined;
+}
@@ -0,0 +1,78 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+	BrightDataClient,
+	createBrightDataClient,
+	FixtureBrightDataClient,
+	RecordingBrightDataClient,
+} from "./brightdata-client.js";
+
+const live: BrightDataClient = {
+	createZone: async () => {},
+	getActiveZones: async () => [{ name: "ecommerce_tracker" }],
+	getSnapshot: async () => [{ title: "Mug", url: "https://shop.example/1" }],
+	getSnapshotProgress: async () => ({ status: "ready" }),
+	request: async (url) => `<html><title>${url}</title></html>`,
+	triggerDataset: async () => ({ snapshot_id: "s_live123" }),
+};
+
+describe("RecordingBrightDataClient", () => {
+	let directory: string;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(path.join(tmpdir(), "brightdata-"));
+	});
+
+	afterEach(async () => {
+		await rm(directory, { force: true, recursive: true });
+	});
+
+	it("writes fixtures that FixtureBrightDataClient replays", async () => {
+		const recorder = new RecordingBrightDataClient(live, directory);
+		const url = "https://www.amazon.com/dp/B09XS7JWHH";
+		const inputs = [{ url: "https://shop.example/1" }];
+
+		const html = await recorder.request(url);
+		const zones = await recorder.getActiveZones();
+		const { snapshot_id } = await recorder.triggerDataset("ds_1", inputs);
+		const records = await recorder.getSnapshot(snapshot_id!);
+
+		const replay = new FixtureBrightDataClient(directory);
+		expect(await replay.request(url)).toBe(html);
+		expect(await replay.getActiveZones()).toEqual(zones);
+		const replayed = await replay.triggerDataset("ds_1", inputs);
+		expect(await replay.getSnapshot(replayed.snapshot_id)).toEqual(records);
+		expect(await replay.getSnapshotProgress()).toEqual({
+			status: "ready",
+		});
+	});
+
+	it("fails replaying what was never recorded", async () => {
+		const replay = new FixtureBrightDataClient(directory);
+
+		await expect(replay.request("https://shop.example/2")).rejects.toThrow(
+			"No request fixture for https://shop.example/2"
+		);
+		expect(await replay.getActiveZones()).toEqual([]);
+	});
+});
+
+describe("createBrightDataClient", () => {
+	it("picks the client for BRIGHT_DATA_MODE", () => {
+		expect(
+			createBrightDataClient({ BRIGHT_DATA_MODE: "replay" })
+		).toBeInstanceOf(FixtureBrightDataClient);
+		expect(
+			createBrightDataClient({
+				BRIGHT_DATA_API_TOKEN: "token",
+				BRIGHT_DATA_MODE: "record",
+			})
+		).toBeInstanceOf(RecordingBrightDataClient);
+		expect(() => createBrightDataClient({})).toThrow(
+			"BRIGHT_DATA_API_TOKEN"
+		);
+	});
+});
@@ -0,0 +1,322 @@
+import axios from "axios";
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const API_BASE_URL = "https://api.brightdata.com";
+
+export interface BrightDataClient {
+	createZone(name: string): Promise<void>;
+	getActiveZones(): Promise<BrightDataZone[]>;
+	getSnapshot(snapshotId: string, options?: RequestOptions): Promise<unknown>;
+	getSnapshotProgress(
+		snapshotId: string,
+		options?: RequestOptions
+	): Promise<SnapshotProgress>;
+	request(url: string, options?: RequestOptions): Promise<string>;
+	triggerDataset(
+		datasetId: string,
+		inputs: Array<{ url: string }>,
+		options?: RequestOptions
+	): Promise<{ snapshot_id?: string }>;
+}
+
+export interface BrightDataZone {
+	name: string;
+	type?: string;
+}
+
+export interface RequestOptions {
+	signal?: AbortSignal;
+}
+
+export interface SnapshotProgress {
+	status: "building" | "failed" | "ready" | "running" | "starting" | string;
+}
+
+/**
+ * Serves canned responses from a fixture directory instead of the network.
+ *
+ * Layout:
+ * - `requests/<key>.html` — raw page for a URL passed to `request`
+ * - `datasets/<key>.json` — snapshot records for a dataset trigger
+ * - `zones.json` — optional list of active zones
+ *
+ * Keys come from `fixtureKey`, so a directory written by
+ * `RecordingBrightDataClient` can be replayed as-is. Snapshot ids are the
+ * dataset key plus a random suffix, unique per trigger like real ones.
+ */
+export class FixtureBrightDataClient implements BrightDataClient {
+	private zones: BrightDataZone[] | undefined;
+
+	constructor(private readonly directory: string) {}
+
+	async createZone(name: string) {
+		const zones = await this.getActiveZones();
+		zones.push({ name, type: "unblocker" });
+	}
+
+	async getActiveZones() {
+		if (!this.zones) {
+			const raw = await readOptional(
+				path.join(this.directory, "zones.json")
+			);
+			this.zones = raw ? JSON.parse(raw) : [];
+		}
+		return this.zones as BrightDataZone[];
+	}
+
+	async getSnapshot(snapshotId: string) {
+		const [key] = snapshotId.split("-", 1);
+		const file = path.join(this.directory, "datasets", `${key}.json`);
+		const raw = await readOptional(file);
+		if (raw === undefined) {
+			throw new Error(`No dataset fixture for snapshot ${snapshotId}`);
+		}
+		return JSON.parse(raw);
+	}
+
+	async getSnapshotProgress(): Promise<SnapshotProgress> {
+		return { status: "ready" };
+	}
+
+	async request(url: string) {
+		const raw = await readOptional(
+			path.join(this.directory, "requests", `${fixtureKey(url)}.html`)
+		);
+		if (raw === undefined) {
+			throw new Error(`No request fixture for ${url}`);
+		}
+		return raw;
+	}
+
+	async triggerDataset(datasetId: string, inputs: Array<{ url: string }>) {
+		return {
+			snapshot_id: `${datasetFixtureKey(datasetId, inputs)}-${randomUUID()}`,
+		};
+	}
+}
+
+/**
+ * Talks to the Bright Data HTTP API. The unlocker zone is used for every
+ * raw page request.
+ */
+export class HttpBrightDataClient implements BrightDataClient {
+	constructor(
+		private readonly apiToken: string,
+		private readonly zone: string
+	) {}
+
+	async createZone(name: string) {
+		await axios({
+			data: {
+				plan: { type: "unblocker" },
+				zone: { name, type: "unblocker" },
+			},
+			headers: {
+				...this.headers(),
+				"Content-Type": "application/json",
+			},
+			method: "POST",
+			url: `${API_BASE_URL}/zone`,
+		});
+	}
+
+	async getActiveZones(): Promise<BrightDataZone[]> {
+		const response = await axios({
+			headers: this.headers(),
+			method: "GET",
+			url: `${API_BASE_URL}/zone/get_active_zones`,
+		});
+		return response.data || [];
+	}
+
+	async getSnapshot(snapshotId: string, options: RequestOptions = {}) {
+		const response = await axios({
+			headers: this.headers(),
+			method: "GET",
+			signal: options.signal,
+			url: `${API_BASE_URL}/datasets/v3/snapshot/${snapshotId}`,
+		});
+		return response.data;
+	}
+
+	async getSnapshotProgress(
+		snapshotId: string,
+		options: RequestOptions = {}
+	): Promise<SnapshotProgress> {
+		const response = await axios({
+			headers: this.headers(),
+			method: "GET",
+			signal: options.signal,
+			url: `${API_BASE_URL}/datasets/v3/progress/${snapshotId}`,
+		});
+		return response.data;
+	}
+
+	async request(url: string, options: RequestOptions = {}): Promise<string> {
+		const response = await axios({
+			data: {
+				format: "raw",
+				url,
+				zone: this.zone,
+			},
+			headers: this.headers(),
+			method: "POST",
+			responseType: "text",
+			signal: options.signal,
+			url: `${API_BASE_URL}/request`,
+		});
+		return response.data;
+	}
+
+	async triggerDataset(
+		datasetId: string,
+		inputs: Array<{ url: string }>,
+		options: RequestOptions = {}
+	) {
+		const response = await axios({
+			data: inputs,
+			headers: this.headers(),
+			method: "POST",
+			params: { dataset_id: datasetId, include_errors: true },
+			signal: options.signal,
+			url: `${API_BASE_URL}/datasets/v3/trigger`,
+		});
+		return response.data || {};
+	}
+
+	private headers() {
+		return {
+			authorization: `Bearer ${this.apiToken}`,
+			"user-agent": `pricemorphe/1.0.0`,
+		};
+	}
+}
+
+/**
+ * Forwards every call to another client and writes the responses into a
+ * fixture directory readable by `FixtureBrightDataClient`.
+ */
+export class RecordingBrightDataClient implements BrightDataClient {
+	private readonly snapshotKeys = new Map<string, string>();
+
+	constructor(
+		private readonly inner: BrightDataClient,
+		private readonly directory: string
+	) {}
+
+	async createZone(name: string) {
+		await this.inner.createZone(name);
+	}
+
+	async getActiveZones() {
+		const zones = await this.inner.getActiveZones();
+		await this.write("zones.json", JSON.stringify(zones, null, 2));
+		return zones;
+	}
+
+	async getSnapshot(snapshotId: string, options?: RequestOptions) {
+		const data = await this.inner.getSnapshot(snapshotId, options);
+		const key = this.snapshotKeys.get(snapshotId) ?? snapshotId;
+		await this.write(
+			path.join("datasets", `${key}.json`),
+			JSON.stringify(data, null, 2)
+		);
+		return data;
+	}
+
+	async getSnapshotProgress(snapshotId: string, options?: RequestOptions) {
+		return await this.inner.getSnapshotProgress(snapshotId, options);
+	}
+
+	async request(url: string, options?: RequestOptions) {
+		const html = await this.inner.request(url, options);
+		await this.write(
+			path.join("requests", `${fixtureKey(url)}.html`),
+			html
+		);
+		return html;
+	}
+
+	async triggerDataset(
+		datasetId: string,
+		inputs: Array<{ url: string }>,
+		options?: RequestOptions
+	) {
+		const result = await this.inner.triggerDataset(
+			datasetId,
+			inputs,
+			options
+		);
+		if (result.snapshot_id) {
+			this.snapshotKeys.set(
+				result.snapshot_id,
+				datasetFixtureKey(datasetId, inputs)
+			);
+		}
+		return result;
+	}
+
+	private async write(relativePath: string, contents: string) {
+		const file = path.join(this.directory, relativePath);
+		await mkdir(path.dirname(file), { recursive: true });
+		await writeFile(file, contents);
+	}
+}
+
+/**
+ * Builds the client selected by `BRIGHT_DATA_MODE`: `live` (default),
+ * `record` or `replay`. The latter two read fixtures from
+ * `BRIGHT_DATA_FIXTURES_DIR`.
+ */
+export function createBrightDataClient(
+	env: NodeJS.ProcessEnv = process.env
+): BrightDataClient {
+	const mode = env.BRIGHT_DATA_MODE || "live";
+	const zone = env.WEB_UNLOCKER_ZONE || "ecommerce_tracker";
+	const fixtures_dir = env.BRIGHT_DATA_FIXTURES_DIR || "fixtures/brightdata";
+
+	if (mode === "replay") {
+		return new FixtureBrightDataClient(fixtures_dir);
+	}
+
+	if (!env.BRIGHT_DATA_API_TOKEN) {
+		throw new Error(
+			"Cannot run MCP server without BRIGHT_DATA_API_TOKEN env"
+		);
+	}
+
+	const http = new HttpBrightDataClient(env.BRIGHT_DATA_API_TOKEN, zone);
+
+	if (mode === "record") {
+		return new RecordingBrightDataClient(http, fixtures_dir);
+	}
+
+	if (mode !== "live") {
+		throw new Error(`Unknown BRIGHT_DATA_MODE: ${mode}`);
+	}
+
+	return http;
+}
+
+export function fixtureKey(url: string) {
+	return createHash("sha1").update(url).digest("hex").slice(0, 16);
+}
+
+function datasetFixtureKey(datasetId: string, inputs: Array<{ url: string }>) {
+	return fixtureKey(
+		`${datasetId}:${inputs.map((input) => input.url).join("\n")}`
+	);
+}
+
+async function readOptional(file: string) {
+	try {
+		return await readFile(file, "utf8");
+	} catch (e: unknown) {
+		if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+			return undefined;
+		}
+		throw e;
+	}
+}
@@ -0,0 +1,107 @@
+import { readFileSync } from "node:fs";
+
+export interface DailyRates {
+	base: string;
+	day: string;
+	rates: Record<string, number>;
+}
+
+export interface ExchangeRateProvider {
+	getRates(day: string): Promise<DailyRates>;
+}
+
+interface RateFile {
+	base?: string;
+	days?: Record<string, Record<string, number>>;
+	rates?: Record<string, number>;
+}
+
+/**
+ * Approximate USD rates used when no rate file is configured, so conversion
+ * keeps working offline.
+ */
+const DEFAULT_USD_RATES: Record<string, number> = {
+	AED: 3.67,
+	AUD: 1.52,
+	BRL: 5.1,
+	CAD: 1.37,
+	CHF: 0.9,
+	CNY: 7.2,
+	CZK: 23,
+	DKK: 6.9,
+	EUR: 0.92,
+	GBP: 0.79,
+	HKD: 7.8,
+	INR: 83,
+	JPY: 155,
+	KRW: 1370,
+	MXN: 17,
+	NOK: 10.7,
+	NZD: 1.65,
+	PLN: 3.95,
+	RUB: 90,
+	SEK: 10.6,
+	SGD: 1.35,
+	TRY: 32,
+	USD: 1,
+};
+
+/**
+ * Serves rates from a fixed table. A rate file may hold a single table
+ * (`{ "base": "USD", "rates": { ... } }`) or one table per day
+ * (`{ "base": "USD", "days": { "2025-06-01": { ... } } }`); for the latter
+ * the most recent day on or before the requested one is used.
+ */
+export class StaticExchangeRateProvider implements ExchangeRateProvider {
+	private readonly table: RateFile;
+
+	constructor(table: RateFile = { base: "USD", rates: DEFAULT_USD_RATES }) {
+		this.table = table;
+	}
+
+	static fromFile(file: string) {
+		return new StaticExchangeRateProvider(
+			JSON.parse(readFileSync(file, "utf8"))
+		);
+	}
+
+	async getRates(day: string): Promise<DailyRates> {
+		const base = this.table.base || "USD";
+
+		if (this.table.days) {
+			const known = Object.keys(this.table.days)
+				.filter((candidate) => candidate <= day)
+				.sort();
+			const match = known[known.length - 1];
+			if (match) {
+				return {
+					base,
+					day: match,
+					rates: { ...this.table.days[match], [base]: 1 },
+				};
+			}
+		}
+
+		if (!this.table.rates) {
+			throw new Error(`No exchange rates available for ${day}`);
+		}
+
+		return { base, day, rates: { ...this.table.rates, [base]: 1 } };
+	}
+}
+
+/**
+ * Uses `EXCHANGE_RATES_FILE` when set, otherwise the built-in table.
+ */
+export function createExchangeRateProvider(
+	env: NodeJS.ProcessEnv = process.env
+): ExchangeRateProvider {
+	if (env.EXCHANGE_RATES_FILE) {
+		return StaticExchangeRateProvider.fromFile(env.EXCHANGE_RATES_FILE);
+	}
+	return new StaticExchangeRateProvider();
+}
+
+export function toDay(date: Date = new Date()) {
+	return date.toISOString().slice(0, 10);
+}
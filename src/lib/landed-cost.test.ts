@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	landedCost,
+	offerTerms,
+	parseShipping,
+	taxRateFor,
+} from "./landed-cost.js";
+
+describe("offerTerms", () => {
+	it("reads coupons, member and subscribe-and-save prices and shipping", () => {
+		expect(
+			offerTerms({
+				coupon: "Apply $5.00 coupon",
+				memberPrice: "$74.00 with Walmart+",
+				shippingInfo: "+$6.99 shipping",
+				subscribeSave: "$18.99 with Subscribe & Save",
+			})
+		).toEqual({
+			coupon: { amount: 5, text: "Apply $5.00 coupon" },
+			memberPrice: 74,
+			shippingCost: 6.99,
+			subscribeSave: {
+				price: 18.99,
+				text: "$18.99 with Subscribe & Save",
+			},
+		});
+	});
+
+	it("reads shared symbols in the offer's currency and drops other currencies", () => {
+		expect(
+			offerTerms(
+				{
+					memberPrice: "US$70.00 for members",
+					shippingInfo: "+$6.99 shipping",
+				},
+				"CAD"
+			)
+		).toEqual({ shippingCost: 6.99 });
+		expect(offerTerms({ shippingInfo: "+$6.99 shipping" }, "EUR")).toEqual(
+			{}
+		);
+	});
+
+	it("leaves out text without an amount", () => {
+		expect(offerTerms({ coupon: "Coupon available" })).toEqual({});
+		expect(parseShipping("Delivery Tuesday, July 8")).toBeUndefined();
+		expect(parseShipping("FREE delivery over $35")).toBe(0);
+	});
+});
+
+describe("landedCost", () => {
+	const offer = {
+		coupon: { percent: 10, text: "Save 10% with coupon" },
+		currency: "USD",
+		memberPrice: 80,
+		price: 100,
+		shippingCost: 5,
+	};
+
+	it("applies the coupon, shipping and the tax rate for the ZIP", () => {
+		expect(
+			landedCost(offer, {
+				taxRates: { "10": 8, "100": 8.875 },
+				zip: "10001",
+			})
+		).toEqual({
+			applied: ["coupon"],
+			currency: "USD",
+			item: 90,
+			shipping: 5,
+			shipping_known: true,
+			tax: 7.99,
+			tax_rate: 8.875,
+			total: 102.99,
+		});
+	});
+
+	it("uses a lower member price only when asked for", () => {
+		expect(landedCost(offer, { memberPricing: true })).toMatchObject({
+			applied: ["member_price"],
+			item: 80,
+			total: 85,
+		});
+	});
+
+	it("follows the converted currency and flags unknown shipping", () => {
+		expect(
+			landedCost(
+				{
+					converted: { currency: "EUR", rate: 0.5 },
+					currency: "USD",
+					price: 40,
+				},
+				{}
+			)
+		).toMatchObject({
+			currency: "EUR",
+			shipping_known: false,
+			total: 20,
+		});
+	});
+});
+
+describe("taxRateFor", () => {
+	it("picks the longest prefix and defaults to 0", () => {
+		expect(taxRateFor("SW1A 1AA", { SW: 0, SW1A: 20 })).toBe(20);
+		expect(taxRateFor("94103", { "10": 8.875 })).toBe(0);
+		expect(taxRateFor(undefined, { "10": 8.875 })).toBe(0);
+	});
+});
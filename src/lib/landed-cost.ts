@@ -0,0 +1,242 @@
+import { readFileSync } from "node:fs";
+
+import { parsePrice } from "./price-parser.js";
+
+/**
+ * A coupon or subscription discount, next to the text it was read from: a
+ * share of the price, an amount off, or the price it brings the item to.
+ */
+export interface Discount {
+	amount?: number;
+	percent?: number;
+	price?: number;
+	text: string;
+}
+
+/**
+ * Estimated cost of an offer delivered to the buyer, in the currency of
+ * its (converted) price. `shipping_known` is false when the page showed no
+ * shipping cost and 0 was assumed.
+ */
+export interface LandedCost {
+	applied: Array<"coupon" | "member_price" | "subscribe_save">;
+	currency: string;
+	item: number;
+	shipping: number;
+	shipping_known: boolean;
+	tax: number;
+	tax_rate: number;
+	total: number;
+}
+
+export interface LandedCostOptions {
+	memberPricing?: boolean;
+	subscribeAndSave?: boolean;
+	taxRates?: TaxRates;
+	zip?: string;
+}
+
+/**
+ * Structured offer fields, as parsers set them on search results and
+ * product details.
+ */
+export interface OfferTerms {
+	coupon?: Discount;
+	deliveryEstimate?: string;
+	memberPrice?: number;
+	shippingCost?: number;
+	shippingInfo?: string;
+	subscribeSave?: Discount;
+}
+
+/**
+ * Sales tax rates in percent by ZIP or postcode prefix, e.g.
+ * `{ "10": 8.875, "94103": 8.625 }`. The longest matching prefix wins.
+ */
+export type TaxRates = Record<string, number>;
+
+/**
+ * Estimates what an offer costs delivered: its price less a clip-on
+ * coupon, or a member or subscribe-and-save price when asked for and
+ * lower, plus shipping and sales tax on the item at the rate for `zip`.
+ * Amounts follow the offer's converted price when it has one.
+ */
+export function landedCost(
+	offer: {
+		converted?: { currency: string; rate: number };
+		currency: string;
+		price: number;
+	} & OfferTerms,
+	options: LandedCostOptions = {}
+): LandedCost | undefined {
+	if (!Number.isFinite(offer.price) || offer.price <= 0) return undefined;
+
+	let applied: LandedCost["applied"] = [];
+	let item = offer.price;
+	const candidates: Array<[LandedCost["applied"][number], number]> = [];
+	if (offer.coupon) {
+		candidates.push(["coupon", discounted(offer.price, offer.coupon)]);
+	}
+	if (options.memberPricing && offer.memberPrice !== undefined) {
+		candidates.push(["member_price", offer.memberPrice]);
+	}
+	if (options.subscribeAndSave && offer.subscribeSave) {
+		candidates.push([
+			"subscribe_save",
+			discounted(offer.price, offer.subscribeSave),
+		]);
+	}
+	for (const [name, amount] of candidates) {
+		if (amount > 0 && amount < item) {
+			item = amount;
+			applied = [name];
+		}
+	}
+
+	const rate = offer.converted?.rate ?? 1;
+	const taxRate = taxRateFor(options.zip, options.taxRates);
+	const shipping = offer.shippingCost ?? 0;
+	const tax = (item * taxRate) / 100;
+
+	return {
+		applied,
+		currency: offer.converted?.currency ?? offer.currency,
+		item: roundMajor(item * rate),
+		shipping: roundMajor(shipping * rate),
+		shipping_known: offer.shippingCost !== undefined,
+		tax: roundMajor(tax * rate),
+		tax_rate: taxRate,
+		total: roundMajor((item + shipping + tax) * rate),
+	};
+}
+
+/**
+ * Reads a tax rate table from a JSON file.
+ */
+export function loadTaxRates(file: string): TaxRates {
+	const rates = JSON.parse(readFileSync(file, "utf8")) as unknown;
+	if (
+		typeof rates !== "object" ||
+		rates === null ||
+		Object.values(rates).some(
+			(rate) => typeof rate !== "number" || rate < 0
+		)
+	) {
+		throw new Error(
+			`${file} must map ZIP prefixes to tax rates in percent`
+		);
+	}
+	return rates as TaxRates;
+}
+
+/**
+ * Turns the text a parser read for a coupon, member and subscribe-and-save
+ * prices and shipping into structured fields, reading shared symbols like
+ * `$` as the offer's `currency`. Text that doesn't parse, or is priced in
+ * another currency, is left out.
+ */
+export function offerTerms(
+	values: {
+		coupon?: unknown;
+		memberPrice?: unknown;
+		shippingInfo?: unknown;
+		subscribeSave?: unknown;
+	},
+	currency?: string
+): Omit<OfferTerms, "deliveryEstimate" | "shippingInfo"> {
+	const text = (value: unknown) =>
+		typeof value === "string" || typeof value === "number"
+			? String(value)
+			: undefined;
+	const coupon = parseDiscount(text(values.coupon), currency);
+	const memberPrice = parseAmount(text(values.memberPrice), currency);
+	const shippingCost = parseShipping(text(values.shippingInfo), currency);
+	const subscribeSave = parseDiscount(text(values.subscribeSave), currency);
+	return {
+		...(coupon ? { coupon } : {}),
+		...(memberPrice !== undefined ? { memberPrice } : {}),
+		...(shippingCost !== undefined ? { shippingCost } : {}),
+		...(subscribeSave ? { subscribeSave } : {}),
+	};
+}
+
+/**
+ * "Save 15% with coupon", "Apply $5.00 coupon" or "$18.99 with Subscribe
+ * & Save".
+ */
+export function parseDiscount(
+	text: string | undefined,
+	currency?: string
+): Discount | undefined {
+	if (!text) return undefined;
+	const percent = /(\d+(?:[.,]\d+)?)\s*%/.exec(text);
+	if (percent) {
+		return { percent: Number(percent[1].replace(",", ".")), text };
+	}
+	const amount = parseAmount(text, currency);
+	if (amount === undefined) return undefined;
+	return /\bsave\s*\S?\s*\d|\d\s*off\b|\bcoupon\b|\bdiscount\b/i.test(text)
+		? { amount, text }
+		: { price: amount, text };
+}
+
+/**
+ * The shipping cost in "+$5.99 shipping", or 0 for free shipping or
+ * delivery. Text without a currency ("Delivery Tuesday, July 8") has no
+ * cost.
+ */
+export function parseShipping(text: string | undefined, currency?: string) {
+	if (!text) return undefined;
+	if (/\bfree\b/i.test(text)) return 0;
+	return parseAmount(text, currency);
+}
+
+/**
+ * The rate of the longest prefix of `zip` in the table, or 0.
+ */
+export function taxRateFor(zip: string | undefined, rates: TaxRates = {}) {
+	const key = zip?.toUpperCase().replace(/\s+/g, "");
+	if (!key) return 0;
+	for (let length = key.length; length > 0; length--) {
+		const rate = rates[key.slice(0, length)];
+		if (rate !== undefined) return rate;
+	}
+	return 0;
+}
+
+/**
+ * The offer with its `landed_cost`, or `null` when it has no price.
+ */
+export function withLandedCost<
+	T extends {
+		converted?: { currency: string; rate: number };
+		currency: string;
+		price: number;
+	} & OfferTerms,
+>(offer: T, options: LandedCostOptions) {
+	return { ...offer, landed_cost: landedCost(offer, options) ?? null };
+}
+
+function discounted(price: number, discount: Discount) {
+	if (discount.percent !== undefined) {
+		return price * (1 - discount.percent / 100);
+	}
+	return discount.price ?? price - (discount.amount ?? 0);
+}
+
+/**
+ * An amount that comes with a currency, `currency` if one is given; bare
+ * numbers are more often dates or counts than prices.
+ */
+function parseAmount(text: string | undefined, currency?: string) {
+	const parsed = parsePrice(text, currency);
+	return parsed?.currency &&
+		(!currency || parsed.currency === currency) &&
+		parsed.amount > 0
+		? parsed.amount
+		: undefined;
+}
+
+function roundMajor(amount: number) {
+	return Math.round(amount * 100) / 100;
+}
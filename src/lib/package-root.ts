@@ -0,0 +1,20 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Resolves `segments` against the package root: the nearest directory above
+ * this module with a `package.json`. That is the same directory whether the
+ * module runs from `src` or compiled into `build/src`.
+ */
+export function packagePath(...segments: string[]) {
+	let directory = path.dirname(fileURLToPath(import.meta.url));
+	while (!existsSync(path.join(directory, "package.json"))) {
+		const parent = path.dirname(directory);
+		if (parent === directory) {
+			throw new Error(`No package.json above ${import.meta.url}`);
+		}
+		directory = parent;
+	}
+	return path.join(directory, ...segments);
+}
@@ -0,0 +1,92 @@
+import { readFile } from "node:fs/promises";
+import { describe, expect, it } from "vitest";
+
+import {
+	diffGolden,
+	formatDiff,
+	loadParserFixtures,
+	productProblems,
+	runParserFixture,
+	toGolden,
+	writeGolden,
+} from "./parser-fixtures.js";
+
+const fixtures = await loadParserFixtures();
+const update = process.env.UPDATE_GOLDENS === "1";
+
+describe.each([...new Set(fixtures.map((fixture) => fixture.platform))])(
+	"%s parsers",
+	(platform) => {
+		it.each(fixtures.filter((fixture) => fixture.platform === platform))(
+			"$name page matches its golden output",
+			async (fixture) => {
+				const output = await runParserFixture(fixture);
+
+				expect(productProblems(output, fixture.kind)).toEqual([]);
+
+				if (update) {
+					await writeGolden(fixture, output);
+					return;
+				}
+				const golden = JSON.parse(
+					await readFile(fixture.goldenPath, "utf8")
+				);
+				expect(
+					diffGolden(golden, toGolden(output)).map(formatDiff)
+				).toEqual([]);
+			}
+		);
+	}
+);
+
+describe("storefront currencies", () => {
+	it("reads a bare $ on amazon.ca as CAD", async () => {
+		const fixture = fixtures.find(
+			(candidate) =>
+				candidate.platform === "amazon" && candidate.kind === "search"
+		)!;
+		const output = await runParserFixture({
+			...fixture,
+			url: "https://www.amazon.ca/s?k=usb+c+charger",
+		});
+
+		expect(output.length).toBeGreaterThan(0);
+		expect(new Set(output.map((product) => product.currency))).toEqual(
+			new Set(["CAD"])
+		);
+	});
+});
+
+describe("diffGolden", () => {
+	it("reports changed, missing and added fields by path", () => {
+		const diffs = diffGolden(
+			[{ name: "Mug", price: 12, specifications: { Color: "Red" } }],
+			toGolden([{ price: NaN, specifications: { Color: "Blue" } }])
+		);
+
+		expect(diffs.map(formatDiff)).toEqual([
+			'[0].name: expected "Mug", got undefined',
+			'[0].price: expected 12, got "NaN"',
+			'[0].specifications.Color: expected "Red", got "Blue"',
+		]);
+	});
+});
+
+describe("productProblems", () => {
+	it("flags NaN prices and empty names", () => {
+		expect(
+			productProblems(
+				[
+					{
+						currency: "USD",
+						name: "",
+						platform: "amazon",
+						price: NaN,
+						url: "https://www.amazon.com/dp/B000000000",
+					},
+				],
+				"search"
+			)
+		).toEqual(["[0].name is empty", "[0].price is NaN"]);
+	});
+});
@@ -0,0 +1,308 @@
+import * as cheerio from "cheerio";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { Platform } from "../platforms/adapter.js";
+import {
+	ProductDetail,
+	ScrapedProduct,
+	ScraperService,
+} from "../services/scraper-service.js";
+import { packagePath } from "./package-root.js";
+import { buildParseReport } from "./parser-health.js";
+import { platformRegistry } from "./platform-registry.js";
+import {
+	parseProductWithConfig,
+	parseSearchWithConfig,
+	SelectorConfig,
+	SelectorStore,
+	selectorStore,
+	SelectorTrace,
+} from "./selector-config.js";
+
+/**
+ * A field whose parsed value differs from the golden output. `path` is
+ * dotted, with array indexes in brackets: `[2].price`, `specifications.Brand`.
+ */
+export interface FieldDiff {
+	actual: unknown;
+	expected: unknown;
+	path: string;
+}
+
+/**
+ * One saved page: `<name>.html` next to its golden `<name>.golden.json`,
+ * listed in the platform's `cases.json`.
+ */
+export interface ParserFixture {
+	goldenPath: string;
+	htmlPath: string;
+	kind: "product" | "search";
+	name: string;
+	platform: Platform;
+	/** The URL the page was saved from; parsers resolve links against it. */
+	url: string;
+}
+
+export const PARSER_FIXTURES_DIR = packagePath("fixtures", "parsers");
+
+/**
+ * Compares a parsed output with its golden field by field. Values are
+ * compared in their golden form, so `NaN` only matches a golden `"NaN"`.
+ */
+export function diffGolden(
+	expected: unknown,
+	actual: unknown,
+	at = ""
+): FieldDiff[] {
+	if (isContainer(expected) && isContainer(actual)) {
+		if (Array.isArray(expected) !== Array.isArray(actual)) {
+			return [{ actual, expected, path: at || "(root)" }];
+		}
+		// Golden order first, then fields the golden doesn't have
+		const added = Object.keys(actual).filter((key) => !(key in expected));
+		return [...Object.keys(expected), ...added].flatMap((key) =>
+			diffGolden(
+				(expected as Record<string, unknown>)[key],
+				(actual as Record<string, unknown>)[key],
+				Array.isArray(expected)
+					? `${at}[${key}]`
+					: at
+						? `${at}.${key}`
+						: key
+			)
+		);
+	}
+	return Object.is(expected, actual)
+		? []
+		: [{ actual, expected, path: at || "(root)" }];
+}
+
+export function formatDiff({ actual, expected, path }: FieldDiff) {
+	return `${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`;
+}
+
+/**
+ * Reads every `fixtures/parsers/<platform>/cases.json`. Platforms without
+ * a `cases.json` are skipped.
+ */
+export async function loadParserFixtures(
+	directory = PARSER_FIXTURES_DIR
+): Promise<ParserFixture[]> {
+	const fixtures: ParserFixture[] = [];
+	const platforms = (await readdir(directory, { withFileTypes: true }))
+		.filter((entry) => entry.isDirectory())
+		.map((entry) => entry.name)
+		.sort();
+
+	for (const platform of platforms) {
+		const folder = path.join(directory, platform);
+		let cases: Array<Pick<ParserFixture, "kind" | "name" | "url">>;
+		try {
+			cases = JSON.parse(
+				await readFile(path.join(folder, "cases.json"), "utf8")
+			);
+		} catch (e: unknown) {
+			if ((e as NodeJS.ErrnoException).code === "ENOENT") continue;
+			throw new Error(`${platform}/cases.json: ${(e as Error).message}`);
+		}
+		for (const { kind, name, url } of cases) {
+			fixtures.push({
+				goldenPath: path.join(folder, `${name}.golden.json`),
+				htmlPath: path.join(folder, `${name}.html`),
+				kind,
+				name,
+				platform,
+				url,
+			});
+		}
+	}
+	return fixtures;
+}
+
+/**
+ * Fields that are broken whatever the golden says: missing names, URLs or
+ * currencies, and prices that aren't finite positive numbers.
+ */
+export function productProblems(
+	products: Array<ProductDetail | ScrapedProduct>,
+	kind: ParserFixture["kind"]
+): string[] {
+	if (kind === "search" && products.length === 0) {
+		return ["no search results parsed"];
+	}
+	return products.flatMap((product, index) => {
+		const at = kind === "search" ? `[${index}].` : "";
+		const problems: string[] = [];
+		if (!product.name) problems.push(`${at}name is empty`);
+		if (!product.url) problems.push(`${at}url is empty`);
+		if (!/^[A-Z]{3}$/.test(product.currency ?? "")) {
+			problems.push(
+				`${at}currency is ${JSON.stringify(product.currency)}`
+			);
+		}
+		if (!Number.isFinite(product.price) || product.price <= 0) {
+			problems.push(`${at}price is ${product.price}`);
+		}
+		return problems;
+	});
+}
+
+/**
+ * Parses a fixture the way lookups do: product pages through the platform
+ * parser merged with structured data, search pages from their search URL.
+ */
+export async function runParserFixture(
+	fixture: ParserFixture,
+	scraper = new ScraperService()
+): Promise<ProductDetail[] | ScrapedProduct[]> {
+	const html = await readFile(fixture.htmlPath, "utf8");
+	return fixture.kind === "product"
+		? [scraper.parseProductDetails(html, fixture.platform, fixture.url)]
+		: scraper.parseSearchResults(html, fixture.platform, fixture.url);
+}
+
+/**
+ * The output as stored in a golden file. JSON has no `NaN` or `undefined`,
+ * so non-finite numbers are kept as strings and undefined fields dropped.
+ * Keys are sorted so goldens don't churn when a parser builds its output
+ * in a different order.
+ */
+export function toGolden(value: unknown): unknown {
+	return JSON.parse(
+		JSON.stringify(value, (_, field) => {
+			if (typeof field === "number" && !Number.isFinite(field)) {
+				return String(field);
+			}
+			if (isContainer(field) && !Array.isArray(field)) {
+				return Object.fromEntries(
+					Object.entries(field).sort(([a], [b]) => a.localeCompare(b))
+				);
+			}
+			return field;
+		})
+	);
+}
+
+/**
+ * Runs a selector config (the loaded one unless `config` is given) against
+ * a stored sample, `fixtures/parsers/<platform>/<sample>.html`, or against
+ * `html`. Reports what each selector matched, the parse's completeness and,
+ * for samples with a golden, how the full parse differs from it.
+ */
+export async function validateSelectors(
+	platform: Platform,
+	options: {
+		config?: SelectorConfig;
+		html?: string;
+		kind?: ParserFixture["kind"];
+		sample?: string;
+		url?: string;
+	},
+	store = selectorStore
+) {
+	const config = options.config ?? store.get(platform);
+	if (!config) {
+		throw new Error(`No selector config loaded for platform: ${platform}`);
+	}
+
+	let fixture: ParserFixture | undefined;
+	let html: string;
+	let kind: ParserFixture["kind"];
+	let url: string;
+	if (options.html) {
+		html = options.html;
+		kind = options.kind ?? "product";
+		const storefront = platformRegistry.storefrontFor(platform);
+		url =
+			options.url ??
+			(storefront ? `https://www.${storefront.domain}/` : "");
+		if (!url) throw new Error(`Unknown platform: ${platform}`);
+	} else {
+		const sample = options.sample ?? options.kind ?? "product";
+		fixture = (await loadParserFixtures()).find(
+			(candidate) =>
+				candidate.platform === platform && candidate.name === sample
+		);
+		if (!fixture) {
+			throw new Error(`No stored sample "${sample}" for ${platform}`);
+		}
+		html = await readFile(fixture.htmlPath, "utf8");
+		kind = fixture.kind;
+		url = fixture.url;
+	}
+
+	const $ = cheerio.load(html);
+	const baseUrl = new URL(url).origin;
+	const currency = platformRegistry.match(url)?.currency;
+	const trace: SelectorTrace = {};
+	let products: ProductDetail[] | ScrapedProduct[];
+	if (kind === "product") {
+		if (!config.product) throw new Error("Config has no product selectors");
+		products = [
+			parseProductWithConfig(
+				$,
+				config.product,
+				platform,
+				baseUrl,
+				currency,
+				trace
+			),
+		];
+	} else {
+		if (!config.search) throw new Error("Config has no search selectors");
+		products = parseSearchWithConfig(
+			$,
+			config.search,
+			platform,
+			baseUrl,
+			currency,
+			trace
+		);
+	}
+
+	let golden_diffs: null | string[] = null;
+	if (fixture) {
+		try {
+			const golden = JSON.parse(
+				await readFile(fixture.goldenPath, "utf8")
+			);
+			const candidate = new SelectorStore(store.directory);
+			candidate.set(config);
+			const output = await runParserFixture(
+				fixture,
+				new ScraperService(platformRegistry, undefined, candidate)
+			);
+			golden_diffs = diffGolden(golden, toGolden(output)).map(formatDiff);
+		} catch (e: unknown) {
+			if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+		}
+	}
+
+	return {
+		config_version: config.version,
+		golden_diffs,
+		kind,
+		problems: productProblems(products, kind),
+		products: toGolden(products),
+		report: buildParseReport(platform, kind, products),
+		selector_hits: trace,
+		unmatched_fields: Object.entries(trace)
+			.filter(([, hits]) =>
+				Object.values(hits).every((count) => count === 0)
+			)
+			.map(([field]) => field),
+		url,
+	};
+}
+
+export async function writeGolden(fixture: ParserFixture, output: unknown) {
+	await writeFile(
+		fixture.goldenPath,
+		`${JSON.stringify(toGolden(output), null, "\t")}\n`
+	);
+}
+
+function isContainer(value: unknown): value is object {
+	return typeof value === "object" && value !== null;
+}
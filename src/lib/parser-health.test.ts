@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+
+import { buildParseReport } from "./parser-health.js";
+
+describe("buildParseReport", () => {
+	it("reports the share of results with each field filled", () => {
+		const report = buildParseReport("amazon", "search", [
+			{
+				currency: "USD",
+				image: "https://m.media-amazon.com/a.jpg",
+				name: "Mug",
+				price: 12,
+				url: "https://www.amazon.com/dp/B000000001",
+			},
+			{
+				currency: "USD",
+				name: "",
+				price: NaN,
+				url: "https://www.amazon.com/dp/B000000002",
+			},
+		]);
+
+		expect(report.fields).toEqual({
+			currency: 1,
+			image: 0.5,
+			name: 0.5,
+			price: 0.5,
+			url: 1,
+		});
+		expect(report.completeness).toBeCloseTo(0.7);
+		expect(report.results).toBe(2);
+	});
+
+	it("counts an empty search page as completely broken", () => {
+		const report = buildParseReport("ebay", "search", []);
+
+		expect(report.completeness).toBe(0);
+		expect(report.results).toBe(0);
+	});
+});
@@ -0,0 +1,61 @@
+import { Platform } from "../platforms/adapter.js";
+import { hasValue } from "./structured-data.js";
+
+export type ParseKind = "product" | "search";
+
+/**
+ * Field completeness of one parse: the share of parsed products with each
+ * field filled, and their average. A search page that yields no products,
+ * or a product page nothing could be read from, has completeness 0.
+ */
+export interface ParseReport {
+	completeness: number;
+	fields: Record<string, number>;
+	kind: ParseKind;
+	platform: Platform;
+	results: number;
+}
+
+/**
+ * The fields a healthy parser fills on every page of its kind. Fields only
+ * some platforms show (brand, rating, seller, ...) are left out so they
+ * don't drag completeness down.
+ */
+export const REPORTED_FIELDS: Record<ParseKind, string[]> = {
+	product: [
+		"currency",
+		"description",
+		"image",
+		"name",
+		"price",
+		"specifications",
+	],
+	search: ["currency", "image", "name", "price", "url"],
+};
+
+export function average(values: number[]) {
+	return values.length > 0
+		? values.reduce((sum, value) => sum + value, 0) / values.length
+		: 0;
+}
+
+export function buildParseReport(
+	platform: Platform,
+	kind: ParseKind,
+	products: object[]
+): ParseReport {
+	const fields: Record<string, number> = {};
+	for (const field of REPORTED_FIELDS[kind]) {
+		const filled = products.filter((product) =>
+			hasValue((product as Record<string, unknown>)[field])
+		).length;
+		fields[field] = products.length > 0 ? filled / products.length : 0;
+	}
+	return {
+		completeness: average(Object.values(fields)),
+		fields,
+		kind,
+		platform,
+		results: products.length,
+	};
+}
@@ -0,0 +1,142 @@
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { Platform, PlatformAdapter, Storefront } from "../platforms/adapter.js";
+import { builtinAdapters } from "../platforms/index.js";
+
+/**
+ * A matched product or search URL: which platform and which of its
+ * regional storefronts it belongs to.
+ */
+export interface PlatformMatch extends Storefront {
+	platform: Platform;
+}
+
+/**
+ * The adapters the server knows about. Tools, lookups, the scraper and the
+ * URL canonicalizer all read platforms from here, so adding a retailer
+ * means registering one adapter.
+ */
+export class PlatformRegistry {
+	private readonly adapters = new Map<Platform, PlatformAdapter>();
+
+	constructor(adapters: PlatformAdapter[] = builtinAdapters) {
+		for (const adapter of adapters) {
+			this.register(adapter);
+		}
+	}
+
+	get(platform: Platform): PlatformAdapter | undefined {
+		return this.adapters.get(platform);
+	}
+
+	ids(): Platform[] {
+		return [...this.adapters.keys()];
+	}
+
+	/**
+	 * Imports every `.js`/`.mjs` file in `directory` and registers its
+	 * default export (an adapter or an array of adapters). An adapter with
+	 * the id of a built-in one replaces it. Returns the registered ids.
+	 */
+	async loadDirectory(directory: string): Promise<Platform[]> {
+		const files = (await readdir(directory))
+			.filter((file) => /\.m?js$/.test(file))
+			.sort();
+		const loaded: Platform[] = [];
+
+		for (const file of files) {
+			const location = path.resolve(directory, file);
+			const module = await import(pathToFileURL(location).href);
+			const exported = module.default ?? module.adapter;
+			const adapters = Array.isArray(exported) ? exported : [exported];
+			for (const adapter of adapters) {
+				try {
+					this.register(adapter);
+				} catch (e: unknown) {
+					throw new Error(`${file}: ${(e as Error).message}`);
+				}
+				loaded.push(adapter.id);
+			}
+		}
+		return loaded;
+	}
+
+	/**
+	 * Matches a URL on its parsed hostname, so `ebay.` in a path or query
+	 * string doesn't count. Returns `undefined` for unknown sites and
+	 * unparseable URLs.
+	 */
+	match(url: string): PlatformMatch | undefined {
+		let parsed: URL;
+		try {
+			parsed = new URL(url);
+		} catch {
+			return undefined;
+		}
+		const host = parsed.hostname.toLowerCase().replace(/\.$/, "");
+
+		for (const adapter of this.adapters.values()) {
+			const onDomain = adapter.storefronts.filter(
+				(candidate) =>
+					host === candidate.domain ||
+					host.endsWith(`.${candidate.domain}`)
+			);
+			if (onDomain.length === 0) continue;
+
+			// Storefronts sharing a domain are told apart by path
+			const pathname = parsed.pathname.toLowerCase();
+			const match =
+				onDomain.find(
+					(candidate) =>
+						candidate.pathPrefix &&
+						(pathname === candidate.pathPrefix ||
+							pathname.startsWith(`${candidate.pathPrefix}/`))
+				) ?? onDomain[0];
+			return { ...match, platform: adapter.id };
+		}
+		return undefined;
+	}
+
+	register(adapter: PlatformAdapter) {
+		if (!adapter || typeof adapter.id !== "string" || !adapter.id) {
+			throw new Error("Platform adapter needs an id");
+		}
+		if (adapter.id === "unknown") {
+			throw new Error('"unknown" is reserved for unmatched URLs');
+		}
+		if (
+			!Array.isArray(adapter.storefronts) ||
+			adapter.storefronts.length === 0
+		) {
+			throw new Error(
+				`Platform adapter "${adapter.id}" needs at least one storefront`
+			);
+		}
+		if (typeof adapter.buildSearchUrl !== "function") {
+			throw new Error(
+				`Platform adapter "${adapter.id}" needs buildSearchUrl`
+			);
+		}
+		this.adapters.set(adapter.id, adapter);
+	}
+
+	/**
+	 * The storefront of a platform for a region, falling back to the default
+	 * storefront when the platform has none there.
+	 */
+	storefrontFor(platform: Platform, region?: string): Storefront | undefined {
+		const storefronts = this.adapters.get(platform)?.storefronts;
+		if (!storefronts) return undefined;
+		// "UK" is common but the ISO code is GB
+		const code =
+			region?.toUpperCase() === "UK" ? "GB" : region?.toUpperCase();
+		return (
+			storefronts.find((candidate) => candidate.region === code) ??
+			storefronts[0]
+		);
+	}
+}
+
+export const platformRegistry = new PlatformRegistry();
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { parsePrice, toMinorUnits } from "./price-parser.js";
+
+describe("parsePrice", () => {
+	it.each([
+		["$1,299.99", { amount: 1299.99, currency: "USD" }],
+		["1.299,00 €", { amount: 1299, currency: "EUR" }],
+		["£1,299", { amount: 1299, currency: "GBP" }],
+		["CHF 1'299.50", { amount: 1299.5, currency: "CHF" }],
+		["19,99 €", { amount: 19.99, currency: "EUR" }],
+		["EUR 12", { amount: 12, currency: "EUR" }],
+		["12 GBP", { amount: 12, currency: "GBP" }],
+		["CA$24.99", { amount: 24.99, currency: "CAD" }],
+		["129 kr", { amount: 129, currency: "SEK" }],
+		["1 299", { amount: 1299, currency: undefined }],
+	])("reads %j", (text, expected) => {
+		expect(parsePrice(text)).toEqual(expected);
+	});
+
+	it.each([
+		["$19.99 - $24.99", { amount: 19.99, currency: "USD", max: 24.99 }],
+		["$19.99–$24.99", { amount: 19.99, currency: "USD", max: 24.99 }],
+		["19,99 € to 24,99 €", { amount: 19.99, currency: "EUR", max: 24.99 }],
+		["$5.00 - $5.00", { amount: 5, currency: "USD" }],
+	])("reads the range %j", (text, expected) => {
+		expect(parsePrice(text)).toEqual(expected);
+	});
+
+	it("takes the currency next to the amount over words around it", () => {
+		expect(parsePrice("Try Prime for $12.99")).toEqual({
+			amount: 12.99,
+			currency: "USD",
+		});
+		expect(parsePrice("Now 15.00 EUR, was CHF 20")?.currency).toBe("EUR");
+	});
+
+	it("reads shared symbols in the storefront's currency", () => {
+		expect(parsePrice("$24.99", "CAD")?.currency).toBe("CAD");
+		expect(parsePrice("$ 1,299.00", "MXN")?.currency).toBe("MXN");
+		expect(parsePrice("129 kr", "NOK")?.currency).toBe("NOK");
+		expect(parsePrice("US$24.99", "CAD")?.currency).toBe("USD");
+		expect(parsePrice("$24.99", "EUR")?.currency).toBe("USD");
+		expect(parsePrice("24.99", "CAD")?.currency).toBeUndefined();
+	});
+
+	it("returns nothing without an amount", () => {
+		expect(parsePrice("Currently unavailable")).toBeUndefined();
+		expect(parsePrice("")).toBeUndefined();
+		expect(parsePrice(undefined)).toBeUndefined();
+	});
+});
+
+describe("toMinorUnits", () => {
+	it("rounds to whole cents", () => {
+		expect(toMinorUnits(19.99)).toBe(1999);
+		expect(toMinorUnits(0.1 + 0.2)).toBe(30);
+	});
+});
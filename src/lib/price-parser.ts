@@ -0,0 +1,195 @@
+export interface ParsedPrice {
+	amount: number;
+	currency?: string;
+	max?: number;
+}
+
+/**
+ * Symbols and prefixes mapped to ISO 4217 codes. Longer entries come first
+ * so `US$` wins over `$`.
+ */
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+	["US$", "USD"],
+	["CA$", "CAD"],
+	["C$", "CAD"],
+	["AU$", "AUD"],
+	["A$", "AUD"],
+	["NZ$", "NZD"],
+	["MX$", "MXN"],
+	["HK$", "HKD"],
+	["R$", "BRL"],
+	["S$", "SGD"],
+	["zł", "PLN"],
+	["kr", "SEK"],
+	["Kč", "CZK"],
+	["CHF", "CHF"],
+	["€", "EUR"],
+	["£", "GBP"],
+	["¥", "JPY"],
+	["₹", "INR"],
+	["₩", "KRW"],
+	["₺", "TRY"],
+	["₽", "RUB"],
+	["$", "USD"],
+];
+
+/**
+ * Symbols several currencies write their prices with. On a storefront whose
+ * currency is one of them, the symbol means that currency.
+ */
+const SHARED_SYMBOLS: Record<string, string[]> = {
+	$: ["ARS", "AUD", "CAD", "CLP", "COP", "HKD", "MXN", "NZD", "SGD", "USD"],
+	"¥": ["CNY", "JPY"],
+	kr: ["DKK", "ISK", "NOK", "SEK"],
+};
+
+const ISO_CODES = new Set([
+	"AED",
+	"AUD",
+	"BRL",
+	"CAD",
+	"CHF",
+	"CNY",
+	"CZK",
+	"DKK",
+	"EUR",
+	"GBP",
+	"HKD",
+	"INR",
+	"JPY",
+	"KRW",
+	"MXN",
+	"NOK",
+	"NZD",
+	"PLN",
+	"RUB",
+	"SEK",
+	"SGD",
+	"TRY",
+	"USD",
+]);
+
+/**
+ * Finds the currency named in a price string, either as an ISO code
+ * (`EUR 12`, `12 GBP`) or a symbol (`€12`, `£12`, `12 kr`). A code or
+ * symbol right next to the amount wins over one elsewhere in the text, and
+ * codes only count in capitals so words like "Try" aren't read as one. A
+ * symbol several currencies share, like a bare `$`, means
+ * `storefrontCurrency` when that is one of them.
+ */
+export function detectCurrency(
+	text: string,
+	storefrontCurrency?: string
+): string | undefined {
+	const symbolCurrency = (entry: [string, string] | undefined) =>
+		entry &&
+		(storefrontCurrency &&
+		SHARED_SYMBOLS[entry[0]]?.includes(storefrontCurrency)
+			? storefrontCurrency
+			: entry[1]);
+
+	const amount = /\d[\d.,'\s]*/.exec(text);
+	if (amount) {
+		const before = text.slice(0, amount.index).trimEnd();
+		const after = text.slice(amount.index + amount[0].length).trimStart();
+		const adjacent =
+			isoCode(/\b([A-Z]{3})$/.exec(before)?.[1]) ??
+			symbolCurrency(
+				CURRENCY_SYMBOLS.find(([symbol]) => before.endsWith(symbol))
+			) ??
+			isoCode(/^([A-Z]{3})\b/.exec(after)?.[1]) ??
+			symbolCurrency(
+				CURRENCY_SYMBOLS.find(([symbol]) => after.startsWith(symbol))
+			);
+		if (adjacent) return adjacent;
+	}
+
+	for (const [, code] of text.matchAll(/\b([A-Z]{3})\b/g)) {
+		if (ISO_CODES.has(code)) return code;
+	}
+
+	return symbolCurrency(
+		CURRENCY_SYMBOLS.find(([symbol]) => text.includes(symbol))
+	);
+}
+
+/**
+ * Parses a displayed price such as `$1,299.99`, `1.299,00 €`, `£1,299`,
+ * `CHF 1'299.50` or a range like `$19.99 - $24.99`. Ranges return the low
+ * end as `amount` and the high end as `max`. Pass the storefront's currency
+ * so `$` on amazon.ca reads as CAD rather than USD; text without a symbol
+ * or code has no currency either way.
+ */
+export function parsePrice(
+	text: null | string | undefined,
+	storefrontCurrency?: string
+): ParsedPrice | undefined {
+	if (!text) return undefined;
+
+	const currency = detectCurrency(text, storefrontCurrency);
+	const [low, high] = text
+		.split(/\s(?:-|–|—|to)\s|(?<=\d)\s*[-–—]\s*(?=\D{0,4}\d)/)
+		.map(parseAmount)
+		.filter((amount): amount is number => amount !== undefined);
+
+	if (low === undefined) return undefined;
+
+	return {
+		amount: low,
+		currency,
+		...(high !== undefined && high !== low ? { max: high } : {}),
+	};
+}
+
+/**
+ * Converts a major-unit amount (e.g. dollars) into the integer minor units
+ * stored on `Price.amount`.
+ */
+export function toMinorUnits(amount: number) {
+	return Math.round(amount * 100);
+}
+
+function isoCode(code: string | undefined) {
+	return code && ISO_CODES.has(code) ? code : undefined;
+}
+
+/**
+ * Reads one amount, working out which separator is the decimal point: the
+ * last of `.` and `,` when both appear, otherwise a single separator followed
+ * by anything but exactly three digits. `1,299` and `1.299` are grouped
+ * thousands in every storefront we scrape.
+ */
+function parseAmount(text: string): number | undefined {
+	const match = text.match(/\d[\d.,'\s]*/);
+	if (!match) return undefined;
+
+	let digits = match[0].replace(/[\s']/g, "");
+	digits = digits.replace(/[.,]+$/, "");
+
+	const lastDot = digits.lastIndexOf(".");
+	const lastComma = digits.lastIndexOf(",");
+	let decimal: "," | "." | undefined;
+
+	if (lastDot !== -1 && lastComma !== -1) {
+		decimal = lastDot > lastComma ? "." : ",";
+	} else if (lastDot !== -1 || lastComma !== -1) {
+		const separator = lastDot !== -1 ? "." : ",";
+		const occurrences = digits.split(separator).length - 1;
+		const fraction = digits.slice(digits.lastIndexOf(separator) + 1);
+
+		if (occurrences === 1 && fraction.length !== 3) {
+			decimal = separator;
+		}
+	}
+
+	let amount: number;
+	if (decimal) {
+		const index = digits.lastIndexOf(decimal);
+		const whole = digits.slice(0, index).replace(/[.,]/g, "");
+		amount = parseFloat(`${whole || "0"}.${digits.slice(index + 1)}`);
+	} else {
+		amount = parseFloat(digits.replace(/[.,]/g, ""));
+	}
+
+	return Number.isFinite(amount) ? amount : undefined;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+
+import { cheapestOffer, Offer, ProductMatcher } from "./product-matching.js";
+
+const offer = (
+	platform: string,
+	name: string,
+	price: number,
+	extra: Partial<Offer> = {}
+): Offer => ({
+	currency: "USD",
+	name,
+	platform,
+	price,
+	url: `https://${platform}.example/${encodeURIComponent(name)}`,
+	...extra,
+});
+
+const matcher = new ProductMatcher({ threshold: 0.6 });
+
+describe("ProductMatcher", () => {
+	it("groups the same product across platforms by title", () => {
+		const clusters = matcher.cluster([
+			offer(
+				"amazon",
+				"Sony WH-1000XM5 Wireless Noise Canceling Headphones, Black",
+				328
+			),
+			offer("amazon", "Apple AirPods Pro (2nd Generation)", 189.99),
+			offer(
+				"walmart",
+				"Sony WH1000XM5 Noise Canceling Wireless Headphones - Black",
+				299.99
+			),
+			offer("ebay", "Apple AirPods Pro 2nd Generation with Case", 179),
+		]);
+
+		expect(clusters).toHaveLength(2);
+		const sony = clusters.find((cluster) => cluster.name.includes("Sony"))!;
+		expect(sony.platforms).toEqual(["amazon", "walmart"]);
+		expect(sony.cheapest?.platform).toBe("walmart");
+		expect(sony.match).toBe("title");
+		expect(sony.confidence).toBeGreaterThanOrEqual(0.6);
+	});
+
+	it("keeps models and capacities apart however alike the titles are", () => {
+		const clusters = matcher.cluster([
+			offer("amazon", "Samsung Galaxy S24 128GB Onyx Black", 799),
+			offer("walmart", "Samsung Galaxy S24 256 GB Onyx Black", 859),
+			offer("bestbuy", "Sony WH-1000XM4 Headphones", 248),
+			offer("bestbuy", "Sony WH-1000XM5 Headphones", 328),
+		]);
+
+		expect(clusters).toHaveLength(4);
+	});
+
+	it("trusts GTINs and MPNs over titles", () => {
+		expect(
+			matcher.score(
+				offer("amazon", "Cordless Drill Kit", 99, {
+					gtin: "885911425308",
+				}),
+				offer("homedepot", "20V MAX Drill/Driver", 89, {
+					gtin: "0885911425308",
+				})
+			)
+		).toEqual({ method: "gtin", score: 1 });
+		expect(
+			matcher.score(
+				offer("amazon", "Sony Headphones", 328, {
+					brand: "Sony",
+					mpn: "WH-1000XM5/B",
+				}),
+				offer("bestbuy", "Sony Headphones", 329, {
+					brand: "Sony",
+					mpn: "WH1000XM4B",
+				})
+			).score
+		).toBe(0);
+	});
+
+	it("leaves offers nothing matched on their own", () => {
+		const [cluster] = matcher.cluster([offer("ebay", "Lamp", 20)]);
+
+		expect(cluster.confidence).toBeNull();
+		expect(cluster.match).toBeNull();
+	});
+});
+
+describe("cheapestOffer", () => {
+	it("compares converted amounts and skips missing prices", () => {
+		expect(
+			cheapestOffer([
+				offer("amazon", "Mug", 12, {
+					converted: { amount: 12, currency: "EUR" },
+				}),
+				offer("zara", "Mug", 10, {
+					converted: { amount: 10, currency: "EUR" },
+					currency: "EUR",
+				}),
+				offer("ebay", "Mug", NaN),
+			])?.platform
+		).toBe("zara");
+	});
+
+	it("has no cheapest offer across currencies", () => {
+		expect(
+			cheapestOffer([
+				offer("amazon", "Mug", 12),
+				offer("zara", "Mug", 10, { currency: "EUR" }),
+			])
+		).toBeNull();
+	});
+});
@@ -0,0 +1,350 @@
+import { Platform } from "../platforms/adapter.js";
+
+export type MatchMethod = "gtin" | "mpn" | "title";
+
+/**
+ * A search result or product detail to match. Identifiers, brand and
+ * specifications come from detail pages and datasets; search results
+ * usually only have a name.
+ */
+export interface Offer {
+	brand?: string;
+	converted?: { amount: number; currency: string };
+	currency: string;
+	gtin?: string;
+	landed_cost?: { currency: string; total: number } | null;
+	mpn?: string;
+	name: string;
+	platform: Platform;
+	price: number;
+	specifications?: Record<string, string>;
+	url: string;
+}
+
+/**
+ * Offers believed to be the same product. `confidence` is the lowest match
+ * score between any two of them, and `match` the weakest kind of evidence
+ * that joined them; both are `null` for an offer nothing matched.
+ */
+export interface OfferCluster<T extends Offer = Offer> {
+	brand: null | string;
+	cheapest: null | T;
+	confidence: null | number;
+	gtin: null | string;
+	match: MatchMethod | null;
+	mpn: null | string;
+	name: string;
+	offers: T[];
+	platforms: Platform[];
+}
+
+interface MatchOptions {
+	threshold: number;
+}
+
+interface MatchResult {
+	method: MatchMethod;
+	score: number;
+}
+
+const STOPWORDS = new Set([
+	"a",
+	"and",
+	"by",
+	"for",
+	"free",
+	"in",
+	"new",
+	"of",
+	"on",
+	"sale",
+	"shipping",
+	"the",
+	"with",
+]);
+
+const UNITS =
+	"gb|tb|mb|mah|w|v|hz|mm|cm|m|in|inch|oz|lb|lbs|g|kg|ml|l|qt|pack|pk|pcs|ct|count";
+
+const QUANTITY = new RegExp(`^\\d+(?:\\.\\d+)?(?:${UNITS})$`);
+
+/**
+ * Groups offers from several platforms into "same product" clusters. Offers
+ * sharing a GTIN (UPC/EAN) or brand and MPN always match, and different
+ * ones never do; otherwise normalized titles, brands and specifications are
+ * compared. An offer joins the cluster it matches best when its score
+ * against every member reaches the threshold.
+ */
+export class ProductMatcher {
+	private readonly options: MatchOptions;
+
+	constructor(options: Partial<MatchOptions> = {}) {
+		this.options = {
+			threshold:
+				options.threshold ?? Number(process.env.MATCH_THRESHOLD || 0.6),
+		};
+	}
+
+	cluster<T extends Offer>(offers: T[]): OfferCluster<T>[] {
+		const groups: Array<{ matches: MatchResult[]; offers: T[] }> = [];
+
+		for (const offer of offers) {
+			let best: (typeof groups)[number] | undefined;
+			let bestMatches: MatchResult[] = [];
+			let bestScore = -1;
+
+			for (const group of groups) {
+				const matches = group.offers.map((member) =>
+					this.score(offer, member)
+				);
+				const score = Math.min(...matches.map((match) => match.score));
+				if (score >= this.options.threshold && score > bestScore) {
+					best = group;
+					bestMatches = matches;
+					bestScore = score;
+				}
+			}
+
+			if (best) {
+				best.offers.push(offer);
+				best.matches.push(...bestMatches);
+			} else {
+				groups.push({ matches: [], offers: [offer] });
+			}
+		}
+
+		return groups
+			.map(({ matches, offers: members }) => toCluster(members, matches))
+			.sort(
+				(a, b) =>
+					b.offers.length - a.offers.length ||
+					(b.confidence ?? 0) - (a.confidence ?? 0)
+			);
+	}
+
+	/**
+	 * How likely two offers are the same product, from 0 to 1, and the
+	 * evidence the score rests on.
+	 */
+	score(a: Offer, b: Offer): MatchResult {
+		const gtinA = gtinKey(a.gtin);
+		const gtinB = gtinKey(b.gtin);
+		if (gtinA && gtinB) {
+			return { method: "gtin", score: gtinA === gtinB ? 1 : 0 };
+		}
+
+		const brandA = a.brand && normalize(a.brand);
+		const brandB = b.brand && normalize(b.brand);
+		if (brandA && brandB && brandA !== brandB) {
+			return { method: "title", score: 0 };
+		}
+
+		const mpnA = mpnKey(a.mpn);
+		const mpnB = mpnKey(b.mpn);
+		if (mpnA && mpnB) {
+			return { method: "mpn", score: mpnA === mpnB ? 0.95 : 0 };
+		}
+
+		const tokensA = titleTokens(a.name);
+		const tokensB = titleTokens(b.name);
+		let score = dice(tokensA, tokensB);
+
+		// A shared model number ("WH-1000XM5") outweighs differently worded
+		// titles; differing model numbers, capacities or sizes ("128gb" vs
+		// "256gb") mean different products however alike the rest is.
+		const modelsA = tokensA.filter(isModelToken);
+		const modelsB = new Set(tokensB.filter(isModelToken));
+		if (modelsA.some((token) => modelsB.has(token))) {
+			score = Math.max(score, 0.85);
+		} else if (modelsA.length > 0 && modelsB.size > 0) {
+			score *= 0.5;
+		}
+		if (conflicts(quantities(tokensA), quantities(tokensB))) {
+			score *= 0.5;
+		}
+
+		const specs = specScore(a.specifications, b.specifications);
+		if (specs !== undefined) {
+			score = 0.75 * score + 0.25 * specs;
+		}
+		if (brandA && brandB) {
+			score = Math.min(1, score + 0.1);
+		}
+
+		return { method: "title", score: round(score) };
+	}
+}
+
+/**
+ * The offer with the lowest landed cost, or price when it has none,
+ * compared in the converted currency when every offer has one. With prices
+ * in several currencies there is no cheapest offer; pass a target currency
+ * to compare them.
+ */
+export function cheapestOffer<T extends Offer>(offers: T[]): null | T {
+	const priced = offers.filter(
+		(offer) => Number.isFinite(offer.price) && offer.price > 0
+	);
+	const currency = (offer: T) =>
+		offer.landed_cost?.currency ??
+		offer.converted?.currency ??
+		offer.currency;
+	if (new Set(priced.map(currency)).size !== 1) return null;
+	return priced.reduce((cheapest, offer) =>
+		amountOf(offer) < amountOf(cheapest) ? offer : cheapest
+	);
+}
+
+/**
+ * What an offer is ranked by: its landed cost, converted price or price.
+ */
+function amountOf(offer: Offer) {
+	if (!Number.isFinite(offer.price)) return Infinity;
+	return offer.landed_cost?.total ?? offer.converted?.amount ?? offer.price;
+}
+
+function conflicts(a: Set<string>, b: Set<string>) {
+	for (const [unit, values] of group(a)) {
+		const other = group(b).get(unit);
+		if (other && ![...values].some((value) => other.has(value))) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Sørensen–Dice coefficient of two token lists.
+ */
+function dice(a: string[], b: string[]) {
+	const setA = new Set(a);
+	const setB = new Set(b);
+	if (setA.size === 0 || setB.size === 0) return 0;
+	const shared = [...setA].filter((token) => setB.has(token)).length;
+	return (2 * shared) / (setA.size + setB.size);
+}
+
+function firstValue<T extends Offer>(
+	offers: T[],
+	field: "brand" | "gtin" | "mpn"
+) {
+	return offers.find((offer) => offer[field])?.[field] ?? null;
+}
+
+/**
+ * Quantities grouped by unit: `128gb` and `256gb` under `gb`.
+ */
+function group(quantities: Set<string>) {
+	const units = new Map<string, Set<string>>();
+	for (const quantity of quantities) {
+		const [, value, unit] = /^(\d+(?:\.\d+)?)([a-z]+)$/.exec(quantity)!;
+		units.set(unit, (units.get(unit) ?? new Set()).add(value));
+	}
+	return units;
+}
+
+/**
+ * GTINs compared as 14 digits, so a UPC-A and the EAN-13 with a leading
+ * zero match.
+ */
+function gtinKey(gtin: string | undefined) {
+	const digits = gtin?.replace(/\D/g, "");
+	return digits && digits.length >= 8 ? digits.padStart(14, "0") : undefined;
+}
+
+/**
+ * Letters and digits mixed, at least four characters: most likely a model
+ * number.
+ */
+function isModelToken(token: string) {
+	return (
+		token.length >= 4 &&
+		/[a-z]/.test(token) &&
+		/\d/.test(token) &&
+		!QUANTITY.test(token)
+	);
+}
+
+function mpnKey(mpn: string | undefined) {
+	return mpn?.toUpperCase().replace(/[^A-Z0-9]/g, "") || undefined;
+}
+
+function normalize(text: string) {
+	return text
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/["”″]/g, "in")
+		.replace(new RegExp(`(\\d)\\s+(${UNITS})\\b`, "g"), "$1$2")
+		.replace(/(\d),(\d{3})\b/g, "$1$2")
+		.replace(/\b([a-z]+)-(?=\d)/g, "$1")
+		.replace(/[^a-z0-9.]+/g, " ")
+		.replace(/\.(?!\d)/g, " ")
+		.trim();
+}
+
+function quantities(tokens: string[]) {
+	return new Set(tokens.filter((token) => QUANTITY.test(token)));
+}
+
+function round(value: number) {
+	return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Share of the specifications both offers list with the same value, or
+ * `undefined` when they have none in common.
+ */
+function specScore(
+	a: Record<string, string> | undefined,
+	b: Record<string, string> | undefined
+) {
+	if (!a || !b) return undefined;
+	const valuesB = new Map(
+		Object.entries(b).map(([key, value]) => [
+			normalize(key),
+			normalize(value),
+		])
+	);
+	const shared = Object.entries(a)
+		.map(([key, value]) => [normalize(key), normalize(value)])
+		.filter(([key]) => valuesB.has(key));
+	if (shared.length === 0) return undefined;
+	return (
+		shared.filter(([key, value]) => valuesB.get(key) === value).length /
+		shared.length
+	);
+}
+
+function titleTokens(name: string) {
+	return normalize(name)
+		.split(" ")
+		.filter((token) => token && !STOPWORDS.has(token));
+}
+
+function toCluster<T extends Offer>(
+	offers: T[],
+	matches: MatchResult[]
+): OfferCluster<T> {
+	const methods = new Set(matches.map((match) => match.method));
+	return {
+		brand: firstValue(offers, "brand"),
+		cheapest: cheapestOffer(offers),
+		confidence:
+			matches.length > 0
+				? Math.min(...matches.map((match) => match.score))
+				: null,
+		gtin: firstValue(offers, "gtin"),
+		match: methods.has("title")
+			? "title"
+			: methods.has("mpn")
+				? "mpn"
+				: methods.has("gtin")
+					? "gtin"
+					: null,
+		mpn: firstValue(offers, "mpn"),
+		name: offers[0].name,
+		offers: [...offers].sort((a, b) => amountOf(a) - amountOf(b) || 0),
+		platforms: [...new Set(offers.map((offer) => offer.platform))],
+	};
+}
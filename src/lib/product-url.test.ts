@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+
+import {
+	canonicalizeProductUrl,
+	resolveProductUrl,
+	storefrontUrl,
+} from "./product-url.js";
+
+describe("canonicalizeProductUrl", () => {
+	it.each([
+		[
+			"https://www.amazon.com/Sony-WH-1000XM5-Headphones/dp/B09XS7JWHH/ref=sr_1_1?keywords=sony&th=1",
+			"https://www.amazon.com/dp/B09XS7JWHH",
+		],
+		[
+			"https://www.amazon.com/gp/product/b09xs7jwhh?ref=ppx_yo_dt_b_asin_title&psc=1",
+			"https://www.amazon.com/dp/B09XS7JWHH",
+		],
+		[
+			"https://WWW.Amazon.de/dp/B09XS7JWHH#customerReviews",
+			"https://www.amazon.de/dp/B09XS7JWHH",
+		],
+		[
+			"https://www.ebay.com/itm/Sony-Headphones/256123456789?hash=item3ba1&_trkparms=x",
+			"https://www.ebay.com/itm/256123456789",
+		],
+		[
+			"https://www.walmart.com/ip/Sony-WH-1000XM5/123456789?athcpid=1&from=/search",
+			"https://www.walmart.com/ip/123456789",
+		],
+	])("reduces %s", (input, url) => {
+		expect(canonicalizeProductUrl(input).url).toBe(url);
+	});
+
+	it.each([
+		"https://amazon.com/dp/B09XS7JWHH",
+		"https://www.amazon.com/dp/B09XS7JWHH",
+		"https://smile.amazon.com/dp/B09XS7JWHH",
+	])("gives %s the storefront's host", (input) => {
+		expect(canonicalizeProductUrl(input).url).toBe(
+			"https://www.amazon.com/dp/B09XS7JWHH"
+		);
+	});
+
+	it("keeps the regional storefront", () => {
+		expect(
+			canonicalizeProductUrl(
+				"https://bestbuy.ca/en-ca/product/sony-wh-1000xm5/16142328?icmp=x"
+			).url
+		).toBe("https://www.bestbuy.ca/en-ca/product/16142328");
+		expect(
+			canonicalizeProductUrl("https://walmart.ca/ip/123456789").url
+		).toBe("https://www.walmart.ca/ip/123456789");
+	});
+
+	it("keeps the product ID and platform", () => {
+		expect(
+			canonicalizeProductUrl(
+				"https://www.amazon.co.uk/gp/product/B09XS7JWHH?ref=x"
+			)
+		).toEqual({
+			externalId: "B09XS7JWHH",
+			platform: "amazon",
+			url: "https://www.amazon.co.uk/dp/B09XS7JWHH",
+		});
+	});
+
+	it("only strips tracking parameters from unknown sites", () => {
+		expect(
+			canonicalizeProductUrl(
+				"https://shop.example/item?id=7&ref=home&utm_source=x&color=red#top"
+			)
+		).toEqual({
+			platform: "unknown",
+			url: "https://shop.example/item?color=red&id=7",
+		});
+	});
+});
+
+describe("resolveProductUrl", () => {
+	it("expands amzn.to short links before canonicalizing", async () => {
+		const resolved = await resolveProductUrl(
+			"https://amzn.to/3xYzAbC",
+			async () =>
+				"https://www.amazon.com/dp/B09XS7JWHH?ref_=cm_sw_r_cp&tag=x-20"
+		);
+
+		expect(resolved.url).toBe("https://www.amazon.com/dp/B09XS7JWHH");
+	});
+
+	it("leaves other URLs alone", async () => {
+		const resolved = await resolveProductUrl(
+			"https://www.amazon.com/dp/B09XS7JWHH",
+			async () => {
+				throw new Error("not a short link");
+			}
+		);
+
+		expect(resolved.externalId).toBe("B09XS7JWHH");
+	});
+});
+
+describe("storefrontUrl", () => {
+	it("tells storefronts on one domain apart by path", () => {
+		expect(
+			storefrontUrl("https://www.zara.com/es/es/vestido-p01234567.html")
+		).toBe("https://www.zara.com/es/es/");
+		expect(storefrontUrl("https://www.amazon.com.mx/dp/B09XS7JWHH")).toBe(
+			"https://www.amazon.com.mx/"
+		);
+	});
+});
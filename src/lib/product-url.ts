@@ -0,0 +1,131 @@
+import { Platform } from "../platforms/adapter.js";
+import { platformRegistry } from "./platform-registry.js";
+
+export interface CanonicalProductUrl {
+	/** Stable product ID on the platform (ASIN, item ID, SKU, ...). */
+	externalId?: string;
+	platform: Platform;
+	url: string;
+}
+
+/**
+ * Follows a short link to the URL it points at.
+ */
+export type ShortLinkResolver = (url: string) => Promise<string>;
+
+const SHORT_LINK_HOSTS = new Set([
+	"a.co",
+	"amzn.asia",
+	"amzn.eu",
+	"amzn.to",
+	"ebay.us",
+	"etsy.me",
+]);
+
+const TRACKING_PARAMS = [
+	/^utm_/,
+	/^ref$/,
+	/^ref_$/,
+	/^tag$/,
+	/^psc$/,
+	/^th$/,
+	/^_trk/,
+	/^gclid$/,
+	/^fbclid$/,
+	/^mkcid$/,
+	/^mkevt$/,
+	/^campid$/,
+	/^athcpid$/,
+	/^athpgid$/,
+	/^irgwc$/,
+];
+
+/**
+ * Reduces a product URL to one canonical form per product, e.g.
+ * `/gp/product/B0…?ref=…` and `/Some-Title/dp/B0…` both become
+ * `https://www.amazon.com/dp/B0…`. URLs of unknown platforms, or without a
+ * recognizable ID, only lose their fragment and tracking parameters.
+ */
+export function canonicalizeProductUrl(input: string): CanonicalProductUrl {
+	const url = new URL(input.trim());
+	url.hostname = url.hostname.toLowerCase();
+	url.hash = "";
+
+	const storefront = platformRegistry.match(url.toString());
+	const platform = storefront?.platform ?? "unknown";
+	const rule = platformRegistry.get(platform)?.canonicalUrl;
+	const externalId = rule?.id(url);
+	if (storefront && rule && externalId) {
+		return {
+			externalId,
+			platform,
+			url: rule.canonical(externalId, url, storefront),
+		};
+	}
+
+	for (const key of [...url.searchParams.keys()]) {
+		if (TRACKING_PARAMS.some((pattern) => pattern.test(key))) {
+			url.searchParams.delete(key);
+		}
+	}
+	url.searchParams.sort();
+	return { platform, url: url.toString() };
+}
+
+/**
+ * Follows redirects with a HEAD request and returns where they end.
+ */
+export async function followRedirects(url: string) {
+	const response = await fetch(url, {
+		method: "HEAD",
+		redirect: "follow",
+		signal: AbortSignal.timeout(5000),
+	});
+	return response.url || url;
+}
+
+export function isShortLink(url: string) {
+	try {
+		return SHORT_LINK_HOSTS.has(new URL(url).hostname.toLowerCase());
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Expands known short links (`amzn.to`, `a.co`, `ebay.us`, ...) and then
+ * canonicalizes the result. A short link that can't be resolved is kept
+ * as-is rather than failing.
+ */
+export async function resolveProductUrl(
+	input: string,
+	resolve: ShortLinkResolver = followRedirects
+): Promise<CanonicalProductUrl> {
+	let url = input.trim();
+	if (isShortLink(url)) {
+		try {
+			url = await resolve(url);
+		} catch (e: unknown) {
+			console.error(
+				`Could not resolve short link ${url}:`,
+				(e as Error).message
+			);
+		}
+	}
+	return canonicalizeProductUrl(url);
+}
+
+/**
+ * The prefix every URL of the storefront `url` belongs to: its origin plus
+ * the storefront's path prefix, e.g. `https://www.zara.com/es/es/`.
+ * Storefronts on one domain, like Zara's, only differ by path; a URL
+ * outside every prefix gets its origin.
+ */
+export function storefrontUrl(url: string) {
+	const parsed = new URL(url);
+	const pathPrefix = platformRegistry.match(url)?.pathPrefix;
+	return pathPrefix &&
+		parsed.pathname.toLowerCase().startsWith(`${pathPrefix}/`)
+		? `${parsed.origin}${parsed.pathname.slice(0, pathPrefix.length)}/`
+		: `${parsed.origin}/`;
+}
@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+	BrightDataError,
+	CircuitBreaker,
+	classifyError,
+	retryWithBackoff,
+} from "./resilience.js";
+import { TimeoutError } from "./task-executor.js";
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+	Object.assign(new Error(`Request failed with status code ${status}`), {
+		response: { headers, status },
+	});
+
+const upstream = () => new BrightDataError("upstream", "Bad gateway");
+
+describe("classifyError", () => {
+	it.each([
+		[401, "auth", false],
+		[407, "auth", false],
+		[402, "quota", false],
+		[429, "quota", true],
+		[403, "blocked", false],
+		[502, "upstream", true],
+		[404, "unknown", false],
+	])("classifies HTTP %i as %s", (status, kind, retryable) => {
+		const error = classifyError(httpError(status));
+
+		expect(error).toMatchObject({ details: { status }, kind, retryable });
+	});
+
+	it("treats a Bright Data error header as blocked", () => {
+		expect(
+			classifyError(httpError(400, { "x-brd-error": "Target blocked" }))
+		).toMatchObject({
+			kind: "blocked",
+			message: "Request blocked: Target blocked",
+		});
+	});
+
+	it("reads Retry-After in seconds", () => {
+		expect(
+			classifyError(httpError(429, { "retry-after": "3" })).details
+		).toEqual({ retryAfterMs: 3000, status: 429 });
+	});
+
+	it("classifies network errors and timeouts by code", () => {
+		const reset = Object.assign(new Error("socket hang up"), {
+			code: "ECONNRESET",
+		});
+		const aborted = Object.assign(new Error("timeout"), {
+			code: "ECONNABORTED",
+		});
+
+		expect(classifyError(reset).kind).toBe("network");
+		expect(classifyError(aborted).kind).toBe("timeout");
+		expect(classifyError(new TimeoutError(50)).kind).toBe("timeout");
+	});
+
+	it("passes BrightDataError through and wraps anything else", () => {
+		const error = upstream();
+
+		expect(classifyError(error)).toBe(error);
+		expect(classifyError("oops")).toMatchObject({
+			kind: "unknown",
+			message: "An unknown error occurred",
+		});
+	});
+});
+
+describe("retryWithBackoff", () => {
+	const options = { baseDelayMs: 100, maxDelayMs: 300, retries: 3 };
+	let delays: number[];
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.spyOn(Math, "random").mockReturnValue(1);
+		const setTimeout = globalThis.setTimeout;
+		delays = [];
+		vi.spyOn(globalThis, "setTimeout").mockImplementation(((
+			callback: () => void,
+			ms: number
+		) => {
+			delays.push(ms);
+			return setTimeout(callback, ms);
+		}) as typeof globalThis.setTimeout);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it("retries with exponential backoff capped at maxDelayMs", async () => {
+		const fn = vi
+			.fn<() => Promise<string>>()
+			.mockRejectedValueOnce(upstream())
+			.mockRejectedValueOnce(upstream())
+			.mockRejectedValueOnce(upstream())
+			.mockResolvedValue("ok");
+
+		const result = retryWithBackoff(fn, options);
+		await vi.runAllTimersAsync();
+
+		expect(await result).toBe("ok");
+		expect(fn).toHaveBeenCalledTimes(4);
+		expect(delays).toEqual([100, 200, 300]);
+	});
+
+	it("gives up after the last retry", async () => {
+		const fn = vi.fn(async () => {
+			throw upstream();
+		});
+
+		const result = retryWithBackoff(fn, options);
+		const rejected = expect(result).rejects.toThrow("Bad gateway");
+		await vi.runAllTimersAsync();
+
+		await rejected;
+		expect(fn).toHaveBeenCalledTimes(4);
+	});
+
+	it("doesn't retry errors that aren't retryable", async () => {
+		const fn = vi.fn(async () => {
+			throw httpError(401);
+		});
+
+		await expect(retryWithBackoff(fn, options)).rejects.toMatchObject({
+			kind: "auth",
+		});
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+
+	it("waits as long as Retry-After asks, up to maxDelayMs", async () => {
+		const fn = vi
+			.fn<() => Promise<string>>()
+			.mockRejectedValueOnce(httpError(429, { "retry-after": "0.25" }))
+			.mockRejectedValueOnce(httpError(429, { "retry-after": "60" }))
+			.mockResolvedValue("ok");
+
+		const result = retryWithBackoff(fn, options);
+		await vi.runAllTimersAsync();
+
+		expect(await result).toBe("ok");
+		expect(delays).toEqual([250, 300]);
+	});
+});
+
+describe("CircuitBreaker", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	const fail = async () => {
+		throw upstream();
+	};
+
+	it("opens after consecutive failures and rejects calls while open", async () => {
+		const breaker = new CircuitBreaker(2, 1000);
+		const fn = vi.fn(async () => "ok");
+
+		await expect(breaker.execute(fail)).rejects.toThrow();
+		expect(breaker.snapshot().state).toBe("closed");
+		await expect(breaker.execute(fail)).rejects.toThrow();
+		expect(breaker.snapshot().state).toBe("open");
+
+		await expect(breaker.execute(fn)).rejects.toMatchObject({
+			kind: "circuit_open",
+		});
+		expect(fn).not.toHaveBeenCalled();
+	});
+
+	it("doesn't count parse failures towards opening", async () => {
+		const breaker = new CircuitBreaker(1, 1000);
+
+		await expect(
+			breaker.execute(async () => {
+				throw new BrightDataError("parse", "No price found");
+			})
+		).rejects.toThrow();
+
+		expect(breaker.snapshot()).toMatchObject({
+			failures: 1,
+			failures_by_kind: { parse: 1 },
+			state: "closed",
+		});
+	});
+
+	it("closes again after a successful trial call", async () => {
+		const breaker = new CircuitBreaker(1, 1000);
+		await expect(breaker.execute(fail)).rejects.toThrow();
+
+		vi.advanceTimersByTime(1000);
+
+		expect(await breaker.execute(async () => "ok")).toBe("ok");
+		expect(breaker.snapshot()).toMatchObject({
+			consecutive_failures: 0,
+			state: "closed",
+		});
+	});
+
+	it("opens again when the trial call fails", async () => {
+		const breaker = new CircuitBreaker(3, 1000);
+		for (let attempt = 0; attempt < 3; attempt++) {
+			await expect(breaker.execute(fail)).rejects.toThrow();
+		}
+
+		vi.advanceTimersByTime(1000);
+		await expect(breaker.execute(fail)).rejects.toThrow("Bad gateway");
+
+		expect(breaker.snapshot().state).toBe("open");
+		await expect(breaker.execute(async () => "ok")).rejects.toMatchObject({
+			kind: "circuit_open",
+		});
+	});
+
+	it("lets only one trial call through while half open", async () => {
+		const breaker = new CircuitBreaker(1, 1000);
+		await expect(breaker.execute(fail)).rejects.toThrow();
+		vi.advanceTimersByTime(1000);
+
+		let finish!: (value: string) => void;
+		const trial = breaker.execute(
+			() => new Promise<string>((resolve) => (finish = resolve))
+		);
+		expect(breaker.snapshot().state).toBe("half_open");
+		await expect(breaker.execute(async () => "ok")).rejects.toMatchObject({
+			kind: "circuit_open",
+		});
+
+		finish("ok");
+		expect(await trial).toBe("ok");
+		expect(await breaker.execute(async () => "again")).toBe("again");
+	});
+});
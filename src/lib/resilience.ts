@@ -0,0 +1,375 @@
+import { sleep, TimeoutError } from "./task-executor.js";
+
+export type ErrorKind =
+	| "auth"
+	| "blocked"
+	| "circuit_open"
+	| "network"
+	| "parse"
+	| "quota"
+	| "timeout"
+	| "unknown"
+	| "upstream";
+
+export interface RetryOptions {
+	baseDelayMs: number;
+	maxDelayMs: number;
+	retries: number;
+	signal?: AbortSignal;
+}
+
+type BreakerState = "closed" | "half_open" | "open";
+
+const RETRYABLE: ReadonlySet<ErrorKind> = new Set([
+	"network",
+	"quota",
+	"timeout",
+	"upstream",
+]);
+
+/**
+ * An error from a Bright Data call (or from parsing its response) with a
+ * kind that decides whether it is retried and whether it trips a breaker.
+ */
+export class BrightDataError extends Error {
+	readonly retryable: boolean;
+
+	constructor(
+		readonly kind: ErrorKind,
+		message: string,
+		readonly details: { retryAfterMs?: number; status?: number } = {}
+	) {
+		super(message);
+		this.name = "BrightDataError";
+		// 402 means the account is out of funds; waiting won't help
+		this.retryable = RETRYABLE.has(kind) && details.status !== 402;
+	}
+}
+
+/**
+ * Per-key circuit breaker: opens after `failureThreshold` consecutive
+ * failures, rejects calls while open, and lets one trial call through once
+ * `resetTimeoutMs` has passed. Other calls are rejected until the trial
+ * settles.
+ */
+export class CircuitBreaker {
+	private consecutiveFailures = 0;
+	private openedAt = 0;
+	private state: BreakerState = "closed";
+	private readonly stats = {
+		failures: 0,
+		failures_by_kind: {} as Partial<Record<ErrorKind, number>>,
+		last_error: null as {
+			at: string;
+			kind: ErrorKind;
+			message: string;
+		} | null,
+		last_success_at: null as null | string,
+		successes: 0,
+	};
+	private trialInFlight = false;
+
+	constructor(
+		private readonly failureThreshold: number,
+		private readonly resetTimeoutMs: number
+	) {}
+
+	async execute<T>(fn: () => Promise<T>): Promise<T> {
+		if (this.state === "open") {
+			if (Date.now() - this.openedAt < this.resetTimeoutMs) {
+				throw new BrightDataError(
+					"circuit_open",
+					"Circuit is open after repeated failures; try again later",
+					{
+						retryAfterMs:
+							this.resetTimeoutMs - (Date.now() - this.openedAt),
+					}
+				);
+			}
+			this.state = "half_open";
+		}
+
+		const trial = this.state === "half_open";
+		if (trial) {
+			if (this.trialInFlight) {
+				throw new BrightDataError(
+					"circuit_open",
+					"Circuit is half open and a trial call is in flight; try again later"
+				);
+			}
+			this.trialInFlight = true;
+		}
+
+		try {
+			const result = await fn();
+			this.recordSuccess();
+			return result;
+		} catch (e: unknown) {
+			this.recordFailure(classifyError(e));
+			throw e;
+		} finally {
+			if (trial) this.trialInFlight = false;
+		}
+	}
+
+	snapshot() {
+		return {
+			consecutive_failures: this.consecutiveFailures,
+			opened_at: this.openedAt
+				? new Date(this.openedAt).toISOString()
+				: null,
+			state: this.state,
+			...this.stats,
+		};
+	}
+
+	private recordFailure(error: BrightDataError) {
+		this.stats.failures++;
+		this.stats.failures_by_kind[error.kind] =
+			(this.stats.failures_by_kind[error.kind] ?? 0) + 1;
+		this.stats.last_error = {
+			at: new Date().toISOString(),
+			kind: error.kind,
+			message: error.message,
+		};
+
+		// A parse failure means the page changed, not that the service is down
+		if (error.kind === "parse") return;
+
+		this.consecutiveFailures++;
+		if (
+			this.state === "half_open" ||
+			this.consecutiveFailures >= this.failureThreshold
+		) {
+			this.state = "open";
+			this.openedAt = Date.now();
+		}
+	}
+
+	private recordSuccess() {
+		this.stats.successes++;
+		this.stats.last_success_at = new Date().toISOString();
+		this.consecutiveFailures = 0;
+		this.state = "closed";
+		this.openedAt = 0;
+	}
+}
+
+/**
+ * Retries and circuit breakers for Bright Data calls, keyed by platform.
+ */
+export class ServiceHealth {
+	private readonly breakers = new Map<string, CircuitBreaker>();
+	private readonly checks = new Map<
+		string,
+		{ at: string; error?: string; ok: boolean }
+	>();
+	private readonly options: {
+		failureThreshold: number;
+		resetTimeoutMs: number;
+		retry: RetryOptions;
+	};
+
+	constructor(
+		options: Partial<{
+			failureThreshold: number;
+			resetTimeoutMs: number;
+			retry: Partial<RetryOptions>;
+		}> = {}
+	) {
+		this.options = {
+			failureThreshold:
+				options.failureThreshold ??
+				Number(process.env.CIRCUIT_FAILURE_THRESHOLD || 5),
+			resetTimeoutMs:
+				options.resetTimeoutMs ??
+				Number(process.env.CIRCUIT_RESET_MS || 60000),
+			retry: {
+				baseDelayMs: Number(process.env.RETRY_BASE_DELAY_MS || 500),
+				maxDelayMs: Number(process.env.RETRY_MAX_DELAY_MS || 10000),
+				retries: Number(process.env.RETRY_ATTEMPTS || 3),
+				...options.retry,
+			},
+		};
+	}
+
+	/**
+	 * Runs `fn` behind the key's circuit breaker, retrying retryable
+	 * failures with backoff. Each retry goes through the breaker again.
+	 */
+	async call<T>(
+		key: string,
+		fn: () => Promise<T>,
+		options: { signal?: AbortSignal } = {}
+	): Promise<T> {
+		const breaker = this.breakerFor(key);
+		return await retryWithBackoff(() => breaker.execute(fn), {
+			...this.options.retry,
+			signal: options.signal,
+		});
+	}
+
+	/**
+	 * Records the outcome of a one-off check such as the zone setup.
+	 */
+	recordCheck(name: string, error?: unknown) {
+		this.checks.set(name, {
+			at: new Date().toISOString(),
+			...(error ? { error: classifyError(error).message } : {}),
+			ok: !error,
+		});
+	}
+
+	report() {
+		const platforms: Record<
+			string,
+			ReturnType<CircuitBreaker["snapshot"]>
+		> = {};
+		for (const [key, breaker] of this.breakers) {
+			platforms[key] = breaker.snapshot();
+		}
+		const degraded = Object.entries(platforms)
+			.filter(([, snapshot]) => snapshot.state !== "closed")
+			.map(([key]) => key);
+
+		return {
+			checks: Object.fromEntries(this.checks),
+			degraded_platforms: degraded,
+			platforms,
+			status: degraded.length > 0 ? "degraded" : "ok",
+		};
+	}
+
+	private breakerFor(key: string) {
+		let breaker = this.breakers.get(key);
+		if (!breaker) {
+			breaker = new CircuitBreaker(
+				this.options.failureThreshold,
+				this.options.resetTimeoutMs
+			);
+			this.breakers.set(key, breaker);
+		}
+		return breaker;
+	}
+}
+
+/**
+ * Wraps anything thrown by a Bright Data call into a `BrightDataError`.
+ * HTTP-shaped errors (axios and friends) are classified by status code,
+ * `Retry-After` and Bright Data's `x-brd-error` header.
+ */
+export function classifyError(error: unknown): BrightDataError {
+	if (error instanceof BrightDataError) return error;
+	if (error instanceof TimeoutError) {
+		return new BrightDataError("timeout", error.message);
+	}
+
+	const e = error as {
+		code?: string;
+		message?: string;
+		response?: {
+			data?: unknown;
+			headers?: Record<string, string | undefined>;
+			status?: number;
+		};
+	};
+	const message = e?.message || "An unknown error occurred";
+	const status = e?.response?.status;
+	const headers = e?.response?.headers ?? {};
+
+	if (status !== undefined) {
+		const retryAfterMs = parseRetryAfter(headers["retry-after"]);
+		const brdError = headers["x-brd-error"] ?? headers["x-luminati-error"];
+		const details = { retryAfterMs, status };
+
+		if (status === 401 || status === 407) {
+			return new BrightDataError(
+				"auth",
+				`Authentication failed: ${message}`,
+				details
+			);
+		}
+		if (status === 402 || status === 429) {
+			return new BrightDataError(
+				"quota",
+				`Rate limited or out of quota: ${message}`,
+				details
+			);
+		}
+		if (brdError || status === 403) {
+			return new BrightDataError(
+				"blocked",
+				`Request blocked: ${brdError || message}`,
+				details
+			);
+		}
+		if (status >= 500) {
+			return new BrightDataError(
+				"upstream",
+				`Bright Data returned ${status}: ${message}`,
+				details
+			);
+		}
+		return new BrightDataError("unknown", message, details);
+	}
+
+	if (
+		e?.code &&
+		[
+			"EAI_AGAIN",
+			"ECONNABORTED",
+			"ECONNREFUSED",
+			"ECONNRESET",
+			"ENOTFOUND",
+			"EPIPE",
+			"ETIMEDOUT",
+		].includes(e.code)
+	) {
+		return new BrightDataError(
+			e.code === "ECONNABORTED" || e.code === "ETIMEDOUT"
+				? "timeout"
+				: "network",
+			message
+		);
+	}
+
+	return new BrightDataError("unknown", message);
+}
+
+/**
+ * Retries retryable errors with exponential backoff and full jitter. A
+ * `Retry-After` from the server overrides the computed delay.
+ */
+export async function retryWithBackoff<T>(
+	fn: () => Promise<T>,
+	options: RetryOptions
+): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await fn();
+		} catch (e: unknown) {
+			const error = classifyError(e);
+			if (
+				!error.retryable ||
+				attempt >= options.retries ||
+				options.signal?.aborted
+			) {
+				throw error;
+			}
+			const backoff = Math.min(
+				options.maxDelayMs,
+				options.baseDelayMs * 2 ** attempt
+			);
+			const delay = error.details.retryAfterMs ?? Math.random() * backoff;
+			await sleep(Math.min(delay, options.maxDelayMs), options.signal);
+		}
+	}
+}
+
+function parseRetryAfter(value: string | undefined) {
+	if (!value) return undefined;
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) return seconds * 1000;
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { prisma } from "./prisma.js";
+import {
+	createResponseCache,
+	MemoryCacheBackend,
+	normalizeCacheUrl,
+	PrismaCacheBackend,
+	ResponseCache,
+} from "./response-cache.js";
+
+vi.mock("./prisma.js", () => ({
+	prisma: {
+		cacheEntry: {
+			deleteMany: vi.fn(async () => ({ count: 0 })),
+			findUnique: vi.fn(),
+			upsert: vi.fn(async () => ({})),
+		},
+	},
+}));
+
+const policy = { ttlMs: 60_000 };
+
+describe("ResponseCache", () => {
+	let cache: ResponseCache;
+
+	beforeEach(() => {
+		vi.useFakeTimers({ now: new Date("2025-07-01T12:00:00Z") });
+		cache = new ResponseCache(new MemoryCacheBackend(), {
+			defaultTtlMs: 60_000,
+			ttlsMs: {},
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("serves a stored value with its age until the TTL passes", async () => {
+		const load = vi.fn(async () => ({ price: 1999 }));
+
+		const first = await cache.getOrLoad("mug", load, policy);
+		vi.advanceTimersByTime(59_000);
+		const second = await cache.getOrLoad("mug", load, policy);
+
+		expect(first.cache).toMatchObject({ age_ms: 0, hit: false });
+		expect(second).toEqual({
+			cache: {
+				age_ms: 59_000,
+				expires_at: "2025-07-01T12:01:00.000Z",
+				hit: true,
+				key: "mug",
+				stored_at: "2025-07-01T12:00:00.000Z",
+			},
+			value: { price: 1999 },
+		});
+		expect(load).toHaveBeenCalledTimes(1);
+
+		vi.advanceTimersByTime(1000);
+		expect((await cache.getOrLoad("mug", load, policy)).cache?.hit).toBe(
+			false
+		);
+		expect(load).toHaveBeenCalledTimes(2);
+	});
+
+	it("treats entries older than maxAgeMs as stale", async () => {
+		await cache.store("mug", 1999, policy);
+		vi.advanceTimersByTime(10_000);
+
+		expect(await cache.peek("mug", { ...policy, maxAgeMs: 5000 })).toBe(
+			undefined
+		);
+		expect(
+			await cache.peek("mug", { ...policy, maxAgeMs: 20_000 })
+		).toEqual(expect.objectContaining({ value: 1999 }));
+	});
+
+	it("skips the read on forceRefresh but stores the fresh value", async () => {
+		await cache.store("mug", 1999, policy);
+
+		const result = await cache.getOrLoad("mug", async () => 1799, {
+			...policy,
+			forceRefresh: true,
+		});
+
+		expect(result).toMatchObject({ cache: { hit: false }, value: 1799 });
+		expect((await cache.peek("mug", policy))?.value).toBe(1799);
+	});
+
+	it("doesn't store values shouldStore rejects", async () => {
+		await cache.getOrLoad("mug", async () => null, policy, Boolean);
+
+		expect(await cache.peek("mug", policy)).toBeUndefined();
+	});
+
+	it("hands out copies of cached values", async () => {
+		const value = { prices: [1999] };
+		await cache.store("mug", value, policy);
+		value.prices.push(1);
+
+		const hit = await cache.peek<typeof value>("mug", policy);
+		hit!.value.prices.push(2);
+
+		expect((await cache.peek("mug", policy))?.value).toEqual({
+			prices: [1999],
+		});
+	});
+
+	it("is bypassed without a policy or backend", async () => {
+		const load = vi.fn(async () => 1999);
+		const disabled = new ResponseCache(null);
+
+		await cache.getOrLoad("mug", load, undefined);
+		await disabled.getOrLoad("mug", load, policy);
+
+		expect(await cache.peek("mug", policy)).toBeUndefined();
+		expect(load).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe("MemoryCacheBackend", () => {
+	it("evicts the least recently used entry", async () => {
+		const backend = new MemoryCacheBackend(2);
+		const entry = (value: unknown) => ({
+			expiresAt: new Date(),
+			storedAt: new Date(),
+			value,
+		});
+
+		await backend.set("a", entry(1));
+		await backend.set("b", entry(2));
+		await backend.get("a");
+		await backend.set("c", entry(3));
+
+		expect(await backend.get("b")).toBeUndefined();
+		expect((await backend.get("a"))?.value).toBe(1);
+	});
+});
+
+describe("PrismaCacheBackend", () => {
+	const entry = (expiresAt: string) => ({
+		expiresAt: new Date(expiresAt),
+		key: "mug",
+		storedAt: new Date("2025-07-01T11:00:00Z"),
+		value: 1999,
+	});
+
+	beforeEach(() => {
+		vi.useFakeTimers({ now: new Date("2025-07-01T12:00:00Z") });
+		vi.mocked(prisma.cacheEntry.deleteMany).mockClear();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("deletes an expired row instead of returning it", async () => {
+		vi.mocked(prisma.cacheEntry.findUnique).mockResolvedValue(
+			entry("2025-07-01T11:30:00Z") as never
+		);
+
+		expect(await new PrismaCacheBackend().get("mug")).toBeUndefined();
+		expect(prisma.cacheEntry.deleteMany).toHaveBeenCalledWith({
+			where: { expiresAt: { lte: new Date() }, key: "mug" },
+		});
+	});
+
+	it("sweeps expired rows on write at most once per interval", async () => {
+		const backend = new PrismaCacheBackend(60_000);
+		const fresh = entry("2025-07-01T13:00:00Z");
+
+		await backend.set("mug", fresh);
+		await backend.set("lamp", fresh);
+		vi.advanceTimersByTime(60_000);
+		await backend.set("cup", fresh);
+
+		expect(prisma.cacheEntry.deleteMany).toHaveBeenCalledTimes(2);
+		expect(prisma.cacheEntry.deleteMany).toHaveBeenLastCalledWith({
+			where: { expiresAt: { lte: new Date() } },
+		});
+	});
+});
+
+describe("createResponseCache", () => {
+	it("rejects an unknown backend", () => {
+		expect(() => createResponseCache({ CACHE_BACKEND: "redis" })).toThrow(
+			"Unknown CACHE_BACKEND: redis"
+		);
+	});
+});
+
+describe("normalizeCacheUrl", () => {
+	it("ignores the fragment, utm parameters and parameter order", () => {
+		expect(
+			normalizeCacheUrl(
+				"https://WWW.Amazon.com/dp/B09XS7JWHH?th=1&utm_source=x&psc=1#reviews"
+			)
+		).toBe("https://www.amazon.com/dp/B09XS7JWHH?psc=1&th=1");
+	});
+});
@@ -0,0 +1,299 @@
+import { prisma } from "./prisma.js";
+
+export interface CacheBackend {
+	delete(key: string): Promise<void>;
+	get(key: string): Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+export interface CacheEntry {
+	expiresAt: Date;
+	storedAt: Date;
+	value: unknown;
+}
+
+/**
+ * Returned next to a cached value so callers can tell how fresh it is.
+ */
+export interface CacheInfo {
+	age_ms: number;
+	expires_at: string;
+	hit: boolean;
+	key: string;
+	stored_at: string;
+}
+
+/**
+ * How one call uses the cache. `maxAgeMs` can only make an entry stale
+ * sooner than its TTL; `forceRefresh` skips the read but still stores the
+ * fresh value.
+ */
+export interface CachePolicy {
+	forceRefresh?: boolean;
+	maxAgeMs?: number;
+	ttlMs: number;
+}
+
+const DEFAULT_TOOL_TTLS_MS: Record<string, number> = {
+	compare_prices: 5 * 60 * 1000,
+	get_product_details: 30 * 60 * 1000,
+	search_products: 10 * 60 * 1000,
+};
+
+/**
+ * Least-recently-used cache held in process memory.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+	private readonly entries = new Map<string, CacheEntry>();
+
+	constructor(private readonly maxEntries = 500) {}
+
+	async delete(key: string) {
+		this.entries.delete(key);
+	}
+
+	async get(key: string) {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		// Re-insert so the Map's insertion order tracks recency
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		// Hand out copies so callers can't change what is cached
+		return structuredClone(entry);
+	}
+
+	async set(key: string, entry: CacheEntry) {
+		this.entries.delete(key);
+		this.entries.set(key, structuredClone(entry));
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value!;
+			this.entries.delete(oldest);
+		}
+	}
+}
+
+/**
+ * Stores entries in the `CacheEntry` table so they survive restarts and are
+ * shared between server instances. Expired rows are deleted when read, and
+ * swept from the whole table at most once per `purgeIntervalMs` on write.
+ */
+export class PrismaCacheBackend implements CacheBackend {
+	private lastPurgeAt = 0;
+
+	constructor(private readonly purgeIntervalMs = 10 * 60 * 1000) {}
+
+	async delete(key: string) {
+		await prisma.cacheEntry.deleteMany({ where: { key } });
+	}
+
+	async get(key: string) {
+		const row = await prisma.cacheEntry.findUnique({ where: { key } });
+		if (row && row.expiresAt.getTime() <= Date.now()) {
+			await prisma.cacheEntry.deleteMany({
+				where: { expiresAt: { lte: new Date() }, key },
+			});
+			return undefined;
+		}
+		return row ?? undefined;
+	}
+
+	async set(key: string, entry: CacheEntry) {
+		const data = { ...entry, value: entry.value as object };
+		await prisma.cacheEntry.upsert({
+			create: { key, ...data },
+			update: data,
+			where: { key },
+		});
+		await this.purgeExpired();
+	}
+
+	private async purgeExpired() {
+		const now = Date.now();
+		if (now - this.lastPurgeAt < this.purgeIntervalMs) return;
+		this.lastPurgeAt = now;
+		await prisma.cacheEntry.deleteMany({
+			where: { expiresAt: { lte: new Date(now) } },
+		});
+	}
+}
+
+/**
+ * Caches Bright Data results so repeated lookups of the same URL or query
+ * don't pay for another request. TTLs are configured per tool.
+ */
+export class ResponseCache {
+	private readonly ttlsMs: Record<string, number>;
+
+	constructor(
+		private readonly backend: CacheBackend | null = new MemoryCacheBackend(),
+		options: { defaultTtlMs?: number; ttlsMs?: Record<string, number> } = {}
+	) {
+		this.ttlsMs = {
+			default:
+				options.defaultTtlMs ??
+				Number(process.env.CACHE_TTL_SECONDS || 900) * 1000,
+			...DEFAULT_TOOL_TTLS_MS,
+			...(options.ttlsMs ?? parseTtls(process.env.CACHE_TOOL_TTLS)),
+		};
+	}
+
+	/**
+	 * Returns the cached value for `key` if it is fresh enough for `policy`,
+	 * otherwise runs `load` and stores its result when `shouldStore` agrees.
+	 * Without a policy the cache is bypassed.
+	 */
+	async getOrLoad<T>(
+		key: string,
+		load: () => Promise<T>,
+		policy: CachePolicy | undefined,
+		shouldStore: (value: T) => boolean = () => true
+	): Promise<{ cache?: CacheInfo; value: T }> {
+		const cached = await this.peek<T>(key, policy);
+		if (cached) return cached;
+
+		const value = await load();
+		const cache = shouldStore(value)
+			? await this.store(key, value, policy)
+			: undefined;
+		return { cache, value };
+	}
+
+	/**
+	 * The cached value for `key`, if there is one fresh enough for `policy`.
+	 * Backend failures count as a miss.
+	 */
+	async peek<T>(
+		key: string,
+		policy: CachePolicy | undefined
+	): Promise<{ cache: CacheInfo; value: T } | undefined> {
+		if (!this.isEnabled(policy) || policy.forceRefresh) return undefined;
+
+		const entry = await this.backend!.get(key).catch(() => undefined);
+		if (!entry || !isFresh(entry, policy.maxAgeMs)) return undefined;
+		return { cache: describe(key, entry, true), value: entry.value as T };
+	}
+
+	/**
+	 * Builds the policy for a tool call from its `max_age` (seconds) and
+	 * `force_refresh` parameters.
+	 */
+	policy(
+		tool: string,
+		params: { force_refresh?: boolean; max_age?: number } = {}
+	): CachePolicy {
+		return {
+			forceRefresh: params.force_refresh,
+			maxAgeMs:
+				params.max_age === undefined
+					? undefined
+					: params.max_age * 1000,
+			ttlMs: this.ttlsMs[tool] ?? this.ttlsMs.default,
+		};
+	}
+
+	/**
+	 * Stores `value` under `key` for the policy's TTL. A failed write is
+	 * logged and otherwise ignored.
+	 */
+	async store(
+		key: string,
+		value: unknown,
+		policy: CachePolicy | undefined
+	): Promise<CacheInfo | undefined> {
+		if (!this.isEnabled(policy)) return undefined;
+
+		const storedAt = new Date();
+		const entry = {
+			expiresAt: new Date(storedAt.getTime() + policy.ttlMs),
+			storedAt,
+			value,
+		};
+		await this.backend!.set(key, entry).catch((e: unknown) => {
+			console.error("Cache write failed:", (e as Error).message);
+		});
+		return describe(key, entry, false);
+	}
+
+	private isEnabled(policy: CachePolicy | undefined): policy is CachePolicy {
+		return (
+			this.backend !== null && policy !== undefined && policy.ttlMs > 0
+		);
+	}
+}
+
+/**
+ * Builds the cache selected by `CACHE_BACKEND`: `memory` (default),
+ * `prisma` or `none`.
+ */
+export function createResponseCache(
+	env: NodeJS.ProcessEnv = process.env
+): ResponseCache {
+	const backend = env.CACHE_BACKEND || "memory";
+	switch (backend) {
+		case "memory":
+			return new ResponseCache(
+				new MemoryCacheBackend(Number(env.CACHE_MAX_ENTRIES || 500))
+			);
+		case "none":
+			return new ResponseCache(null);
+		case "prisma":
+			return new ResponseCache(new PrismaCacheBackend());
+		default:
+			throw new Error(`Unknown CACHE_BACKEND: ${backend}`);
+	}
+}
+
+/**
+ * Lower-cases the host, drops the fragment and `utm_*` parameters and
+ * sorts the rest, so trivially different URLs share a cache entry.
+ */
+export function normalizeCacheUrl(url: string) {
+	try {
+		const parsed = new URL(url);
+		parsed.hash = "";
+		for (const key of [...parsed.searchParams.keys()]) {
+			if (key.startsWith("utm_")) parsed.searchParams.delete(key);
+		}
+		parsed.searchParams.sort();
+		return parsed.toString();
+	} catch {
+		return url.trim();
+	}
+}
+
+export function normalizeQuery(query: string) {
+	return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function describe(key: string, entry: CacheEntry, hit: boolean): CacheInfo {
+	return {
+		age_ms: Date.now() - new Date(entry.storedAt).getTime(),
+		expires_at: new Date(entry.expiresAt).toISOString(),
+		hit,
+		key,
+		stored_at: new Date(entry.storedAt).toISOString(),
+	};
+}
+
+function isFresh(entry: CacheEntry, maxAgeMs: number | undefined) {
+	const now = Date.now();
+	if (new Date(entry.expiresAt).getTime() <= now) return false;
+	return (
+		maxAgeMs === undefined ||
+		now - new Date(entry.storedAt).getTime() < maxAgeMs
+	);
+}
+
+/**
+ * Parses `search_products=600,get_product_details=1800` (seconds).
+ */
+function parseTtls(value: string | undefined) {
+	const ttls: Record<string, number> = {};
+	for (const entry of (value || "").split(",")) {
+		const [tool, seconds] = entry.split("=").map((part) => part.trim());
+		if (tool && seconds !== undefined && Number(seconds) >= 0) {
+			ttls[tool] = Number(seconds) * 1000;
+		}
+	}
+	return ttls;
+}
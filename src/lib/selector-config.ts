@@ -0,0 +1,543 @@
+import * as cheerio from "cheerio";
+import { FSWatcher, readdirSync, readFileSync, watch } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+
+import { Platform } from "../platforms/adapter.js";
+import { priceFields } from "../platforms/helpers.js";
+import { ProductDetail, ScrapedProduct } from "../services/scraper-service.js";
+import { offerTerms } from "./landed-cost.js";
+import { packagePath } from "./package-root.js";
+import { parsePrice } from "./price-parser.js";
+
+/**
+ * How often each selector of each field matched, e.g.
+ * `{ price: { "#priceblock_ourprice": 0, "#price_inside_buybox": 1 } }`.
+ * Concatenated fields count under `concat`.
+ */
+export type SelectorTrace = Record<string, Record<string, number>>;
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+const transformSchema = z.union([
+	z.enum(["absoluteUrl", "float", "int", "price", "trim"]),
+	z.object({ remove: z.string() }).strict(),
+]);
+
+interface FieldSpec {
+	attribute?: string;
+	concat?: FieldSpec[];
+	selectors: string[];
+	transforms: Array<z.infer<typeof transformSchema>>;
+}
+
+/**
+ * A field is a selector, a list of fallback selectors tried in order, or
+ * an object that can also read an attribute, concatenate other fields and
+ * choose its transforms. Transforms default to `trim`.
+ */
+const fieldSchema: z.ZodType<FieldSpec, z.ZodTypeDef, unknown> = z.lazy(() =>
+	z
+		.union([
+			z.string().min(1),
+			z.array(z.string().min(1)).min(1),
+			z
+				.object({
+					attribute: z.string().optional(),
+					concat: z.array(fieldSchema).min(1).optional(),
+					selectors: z
+						.union([z.string().min(1), z.array(z.string().min(1))])
+						.optional(),
+					transforms: z.array(transformSchema).optional(),
+				})
+				.strict(),
+		])
+		.transform((spec) =>
+			typeof spec === "string" || Array.isArray(spec)
+				? { selectors: [spec].flat(), transforms: ["trim" as const] }
+				: {
+						...spec,
+						selectors: spec.selectors
+							? [spec.selectors].flat()
+							: [],
+						transforms: spec.transforms ?? ["trim" as const],
+					}
+		)
+);
+
+const PRODUCT_FIELDS = [
+	"availability",
+	"brand",
+	"category",
+	"coupon",
+	"deliveryEstimate",
+	"description",
+	"gtin",
+	"image",
+	"memberPrice",
+	"mpn",
+	"name",
+	"price",
+	"rating",
+	"reviews",
+	"seller",
+	"shippingInfo",
+	"sku",
+	"subscribeSave",
+] as const;
+
+const SEARCH_FIELDS = [
+	"coupon",
+	"deliveryEstimate",
+	"image",
+	"memberPrice",
+	"name",
+	"price",
+	"rating",
+	"reviews",
+	"shippingInfo",
+	"subscribeSave",
+	"url",
+] as const;
+
+export const selectorConfigSchema = z
+	.object({
+		platform: z.string().min(1),
+		product: z
+			.object({
+				fields: z.record(z.enum(PRODUCT_FIELDS), fieldSchema),
+				specifications: z
+					.object({
+						extra: z.record(fieldSchema).optional(),
+						label: fieldSchema,
+						rows: z.string().min(1),
+						value: fieldSchema,
+					})
+					.strict()
+					.optional(),
+				variants: z
+					.object({
+						items: z.string().min(1),
+						name: fieldSchema,
+						price: fieldSchema.optional(),
+						unavailableClass: z.string().optional(),
+					})
+					.strict()
+					.optional(),
+			})
+			.strict()
+			.optional(),
+		search: z
+			.object({
+				fields: z.record(z.enum(SEARCH_FIELDS), fieldSchema),
+				items: z.string().min(1),
+				required: z
+					.array(z.enum(SEARCH_FIELDS))
+					.optional()
+					.default(["name", "price", "url"]),
+			})
+			.strict()
+			.optional(),
+		version: z.union([z.number(), z.string()]),
+	})
+	.strict();
+
+export type SelectorConfig = z.infer<typeof selectorConfigSchema>;
+
+/**
+ * Selector configs per platform, read from `*.json` files in a directory
+ * the first time one is needed, unless `set()` filled the store by hand.
+ * After `watch()`, an edited file replaces its config without a restart;
+ * a file that doesn't validate is reported and the previous config kept.
+ */
+export class SelectorStore {
+	private readonly configs = new Map<Platform, SelectorConfig>();
+	private readonly files = new Map<string, Platform>();
+	private loaded = false;
+	private watcher?: FSWatcher;
+
+	constructor(readonly directory: string) {}
+
+	close() {
+		this.watcher?.close();
+		this.watcher = undefined;
+	}
+
+	get(platform: Platform): SelectorConfig | undefined {
+		if (!this.loaded) this.load();
+		return this.configs.get(platform);
+	}
+
+	/**
+	 * Reads every config in the directory. A missing directory leaves the
+	 * store empty; an invalid file is logged and skipped. An empty store is
+	 * logged too, since only platforms with code parsers can parse then.
+	 */
+	load() {
+		this.loaded = true;
+		let files: string[] = [];
+		try {
+			files = readdirSync(this.directory).filter((file) =>
+				file.endsWith(".json")
+			);
+		} catch (e: unknown) {
+			if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e;
+		}
+		for (const file of files.sort()) {
+			this.reload(file);
+		}
+		if (this.configs.size === 0) {
+			console.error(`No selector configs loaded from ${this.directory}`);
+		}
+		return this;
+	}
+
+	set(config: SelectorConfig) {
+		this.loaded = true;
+		this.configs.set(config.platform, config);
+	}
+
+	/**
+	 * The platform and version of every loaded config.
+	 */
+	versions() {
+		if (!this.loaded) this.load();
+		return Object.fromEntries(
+			[...this.configs.values()].map((config) => [
+				config.platform,
+				config.version,
+			])
+		);
+	}
+
+	watch() {
+		if (this.watcher) return;
+		if (!this.loaded) this.load();
+		const pending = new Map<string, NodeJS.Timeout>();
+		try {
+			this.watcher = watch(this.directory, (_, file) => {
+				if (!file?.endsWith(".json")) return;
+				// Editors write a file in several steps; wait for the last one
+				clearTimeout(pending.get(file));
+				pending.set(
+					file,
+					setTimeout(() => {
+						pending.delete(file);
+						this.reload(file);
+					}, 200)
+				);
+			});
+		} catch (e: unknown) {
+			console.error(
+				`Cannot watch selector configs in ${this.directory}:`,
+				(e as Error).message
+			);
+		}
+	}
+
+	private reload(file: string) {
+		const location = path.join(this.directory, file);
+		let text: string;
+		try {
+			text = readFileSync(location, "utf8");
+		} catch {
+			// Deleted: drop the config it held
+			const platform = this.files.get(file);
+			if (platform) this.configs.delete(platform);
+			this.files.delete(file);
+			return;
+		}
+		try {
+			const config = parseSelectorConfig(text);
+			const previous = this.configs.get(config.platform);
+			this.configs.set(config.platform, config);
+			this.files.set(file, config.platform);
+			if (previous && previous.version !== config.version) {
+				console.error(
+					`Reloaded ${config.platform} selectors: version ${previous.version} -> ${config.version}`
+				);
+			}
+		} catch (e: unknown) {
+			console.error(
+				`Invalid selector config ${file}:`,
+				(e as Error).message
+			);
+		}
+	}
+}
+
+/**
+ * Reads a product page with a config's `product` selectors. Fields that
+ * match nothing are left out; `price` falls back to `NaN` in the
+ * storefront's currency like the other parsers, so structured data can
+ * fill it in.
+ */
+export function parseProductWithConfig(
+	$: cheerio.CheerioAPI,
+	config: NonNullable<SelectorConfig["product"]>,
+	platform: Platform,
+	baseUrl: string,
+	currency = "USD",
+	trace: SelectorTrace = {}
+): ProductDetail {
+	const root = $.root();
+	const values = readFields($, root, config.fields, baseUrl, trace);
+	const product: ProductDetail = {
+		...(withOfferTerms(values, currency) as Partial<ProductDetail>),
+		...priceFields(
+			typeof values.price === "string" ? values.price : "",
+			currency
+		),
+		name: typeof values.name === "string" ? values.name : "",
+		platform,
+		url: baseUrl,
+	};
+
+	if (config.specifications) {
+		const spec = config.specifications;
+		const specifications: Record<string, string> = {};
+		root.find(spec.rows).each((_, row) => {
+			const label = readText($, $(row), spec.label, baseUrl);
+			const value = readText($, $(row), spec.value, baseUrl);
+			if (label && value) specifications[label] = value;
+		});
+		for (const [key, field] of Object.entries(spec.extra ?? {})) {
+			const value = readText($, root, field, baseUrl);
+			if (value) specifications[key] = value;
+		}
+		if (Object.keys(specifications).length > 0) {
+			product.specifications = specifications;
+		}
+	}
+
+	if (config.variants) {
+		const spec = config.variants;
+		const variants: NonNullable<ProductDetail["variants"]> = [];
+		root.find(spec.items).each((_, item) => {
+			const name = readText($, $(item), spec.name, baseUrl);
+			if (!name) return;
+			const price = spec.price
+				? parsePrice(readText($, $(item), spec.price, baseUrl) ?? "")
+						?.amount
+				: undefined;
+			variants.push({
+				...(spec.unavailableClass
+					? { available: !$(item).hasClass(spec.unavailableClass) }
+					: {}),
+				name,
+				...(price !== undefined ? { price } : {}),
+			});
+		});
+		if (variants.length > 0) product.variants = variants;
+	}
+
+	return product;
+}
+
+/**
+ * Reads a search page with a config's `search` selectors. Items missing a
+ * `required` field are skipped; prices without a currency of their own are
+ * in the storefront's `currency`.
+ */
+export function parseSearchWithConfig(
+	$: cheerio.CheerioAPI,
+	config: NonNullable<SelectorConfig["search"]>,
+	platform: Platform,
+	baseUrl: string,
+	currency = "USD",
+	trace: SelectorTrace = {}
+): ScrapedProduct[] {
+	const products: ScrapedProduct[] = [];
+	$(config.items).each((_, item) => {
+		const values = readFields($, $(item), config.fields, baseUrl, trace);
+		if (config.required.some((field) => values[field] === undefined)) {
+			return;
+		}
+		products.push({
+			...(withOfferTerms(values, currency) as Partial<ScrapedProduct>),
+			...priceFields(
+				typeof values.price === "string" ? values.price : "",
+				currency
+			),
+			name: String(values.name ?? ""),
+			platform,
+			url: String(values.url ?? ""),
+		});
+	});
+	return products;
+}
+
+/**
+ * Parses and validates a config from JSON text.
+ */
+export function parseSelectorConfig(text: string): SelectorConfig {
+	let json: unknown;
+	try {
+		json = JSON.parse(text);
+	} catch (e: unknown) {
+		throw new Error(`Not valid JSON: ${(e as Error).message}`);
+	}
+	const result = selectorConfigSchema.safeParse(json);
+	if (!result.success) {
+		throw new Error(
+			result.error.issues
+				.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+				.join("; ")
+		);
+	}
+	return result.data;
+}
+
+function applyTransforms(
+	value: string,
+	transforms: FieldSpec["transforms"],
+	baseUrl: string
+): number | string | undefined {
+	let current: number | string | undefined = value;
+	for (const transform of transforms) {
+		if (current === undefined) return undefined;
+		const text: string = String(current);
+		if (typeof transform === "object") {
+			current = text.split(transform.remove).join("");
+			continue;
+		}
+		switch (transform) {
+			case "absoluteUrl":
+				try {
+					current = new URL(text, baseUrl).toString();
+				} catch {
+					current = undefined;
+				}
+				break;
+			case "float":
+				current = finite(parseFloat(text.replace(/,/g, "")));
+				break;
+			case "int":
+				current = finite(parseInt(text.replace(/[^0-9]/g, "")));
+				break;
+			case "price":
+				// Keep the text; it's turned into price fields when assigned
+				current = parsePrice(text) ? text.trim() : undefined;
+				break;
+			case "trim":
+				current = text.trim();
+				break;
+		}
+	}
+	return current === "" ? undefined : current;
+}
+
+function finite(value: number) {
+	return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * The first non-empty value among a field's selectors, in order. A field
+ * without selectors reads the scope element itself.
+ */
+function readField(
+	$: cheerio.CheerioAPI,
+	scope: Selection,
+	spec: FieldSpec,
+	baseUrl: string,
+	hits?: Record<string, number>
+): number | string | undefined {
+	if (spec.concat) {
+		const parts = spec.concat.map((part) =>
+			readField($, scope, part, baseUrl)
+		);
+		if (parts.every((part) => part === undefined)) return undefined;
+		const value = applyTransforms(
+			parts.map((part) => part ?? "").join(""),
+			spec.transforms,
+			baseUrl
+		);
+		if (hits && value !== undefined) hits.concat = (hits.concat ?? 0) + 1;
+		return value;
+	}
+
+	const candidates = spec.selectors.length > 0 ? spec.selectors : [""];
+	for (const selector of candidates) {
+		const element = selector ? scope.find(selector).first() : scope;
+		if (element.length === 0) continue;
+		const raw = spec.attribute
+			? element.attr(spec.attribute)
+			: element.text();
+		const value =
+			raw === undefined
+				? undefined
+				: applyTransforms(raw, spec.transforms, baseUrl);
+		if (value !== undefined) {
+			if (hits && selector) hits[selector] = (hits[selector] ?? 0) + 1;
+			return value;
+		}
+	}
+	return undefined;
+}
+
+function readFields(
+	$: cheerio.CheerioAPI,
+	scope: Selection,
+	fields: Partial<Record<string, FieldSpec>>,
+	baseUrl: string,
+	trace: SelectorTrace
+) {
+	const values: Record<string, number | string> = {};
+	for (const [field, spec] of Object.entries(fields)) {
+		if (!spec) continue;
+		trace[field] ??= Object.fromEntries(
+			(spec.concat ? ["concat"] : spec.selectors).map((selector) => [
+				selector,
+				0,
+			])
+		);
+		const value = readField($, scope, spec, baseUrl, trace[field]);
+		if (value !== undefined) values[field] = value;
+	}
+	return values;
+}
+
+function readText(
+	$: cheerio.CheerioAPI,
+	scope: Selection,
+	spec: FieldSpec,
+	baseUrl: string
+) {
+	const value = readField($, scope, spec, baseUrl);
+	return value === undefined ? undefined : String(value);
+}
+
+/**
+ * The configs in `SELECTORS_DIR`, or the package's `selectors` directory,
+ * found from the package root rather than the working directory so the
+ * server can be started from anywhere. Read on first use.
+ */
+export const selectorStore = new SelectorStore(
+	process.env.SELECTORS_DIR
+		? path.resolve(process.env.SELECTORS_DIR)
+		: packagePath("selectors")
+);
+
+/**
+ * Field values with the coupon, member price, subscribe-and-save and
+ * shipping text read into structured offer terms in the storefront's
+ * `currency`.
+ */
+function withOfferTerms(
+	values: Record<string, number | string>,
+	currency: string
+) {
+	const { coupon, memberPrice, subscribeSave, ...rest } = values;
+	return {
+		...rest,
+		...offerTerms(
+			{
+				coupon,
+				memberPrice,
+				shippingInfo: rest.shippingInfo,
+				subscribeSave,
+			},
+			currency
+		),
+	};
+}
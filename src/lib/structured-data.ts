@@ -0,0 +1,261 @@
+import * as cheerio from "cheerio";
+
+import { parsePrice } from "./price-parser.js";
+
+export type FieldSource = "json-ld" | "microdata" | "opengraph" | "parser";
+
+export interface StructuredDataResult {
+	fields: StructuredProduct;
+	sources: Partial<Record<keyof StructuredProduct, FieldSource>>;
+}
+
+export interface StructuredProduct {
+	availability?: string;
+	brand?: string;
+	category?: string;
+	currency?: string;
+	description?: string;
+	gtin?: string;
+	image?: string;
+	mpn?: string;
+	name?: string;
+	price?: number;
+	rating?: number;
+	reviews?: number;
+	seller?: string;
+	sku?: string;
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+/**
+ * Reads schema.org `Product`/`Offer` data from JSON-LD, microdata and
+ * `og:`/`product:` meta tags. Earlier sources win, in that order, so every
+ * field reports the most reliable place it was found.
+ */
+export function extractStructuredData(
+	$: cheerio.CheerioAPI,
+	baseUrl: string
+): StructuredDataResult {
+	const result: StructuredDataResult = { fields: {}, sources: {} };
+
+	const layers: Array<[FieldSource, StructuredProduct]> = [
+		["json-ld", extractJsonLd($)],
+		["microdata", extractMicrodata($)],
+		["opengraph", extractOpenGraph($)],
+	];
+
+	for (const [source, fields] of layers) {
+		for (const [key, value] of Object.entries(fields) as Array<
+			[
+				keyof StructuredProduct,
+				StructuredProduct[keyof StructuredProduct],
+			]
+		>) {
+			if (!hasValue(value) || hasValue(result.fields[key])) continue;
+			(result.fields as Record<string, unknown>)[key] = value;
+			result.sources[key] = source;
+		}
+	}
+
+	if (result.fields.image) {
+		result.fields.image = absoluteUrl(result.fields.image, baseUrl);
+	}
+
+	return result;
+}
+
+export function hasValue(value: unknown) {
+	if (value === undefined || value === null) return false;
+	if (typeof value === "string") return value.trim() !== "";
+	if (typeof value === "number") return Number.isFinite(value);
+	if (Array.isArray(value)) return value.length > 0;
+	if (typeof value === "object") return Object.keys(value).length > 0;
+	return true;
+}
+
+function absoluteUrl(value: string, baseUrl: string) {
+	try {
+		return new URL(value, baseUrl).toString();
+	} catch {
+		return value;
+	}
+}
+
+function collectNodes(value: unknown, nodes: JsonLdNode[]) {
+	if (Array.isArray(value)) {
+		value.forEach((item) => collectNodes(item, nodes));
+		return;
+	}
+	if (!value || typeof value !== "object") return;
+
+	const node = value as JsonLdNode;
+	nodes.push(node);
+	if (node["@graph"]) collectNodes(node["@graph"], nodes);
+}
+
+function extractJsonLd($: cheerio.CheerioAPI): StructuredProduct {
+	const nodes: JsonLdNode[] = [];
+
+	$('script[type="application/ld+json"]').each((_, elem) => {
+		try {
+			collectNodes(JSON.parse($(elem).text()), nodes);
+		} catch {
+			// Ignore malformed blocks; retailers often ship several.
+		}
+	});
+
+	const product = nodes.find((node) => hasType(node, "Product"));
+	if (!product) return {};
+
+	const offers = firstNode(product.offers);
+	const innerOffer = firstNode(offers?.offers);
+	const rating = firstNode(product.aggregateRating);
+
+	return {
+		availability: schemaEnum(
+			offers?.availability ?? innerOffer?.availability
+		),
+		brand: nameOf(product.brand),
+		category: text(product.category),
+		currency: text(offers?.priceCurrency),
+		description: text(product.description),
+		gtin: text(
+			product.gtin13 ?? product.gtin12 ?? product.gtin8 ?? product.gtin
+		),
+		image: imageOf(product.image),
+		mpn: text(product.mpn),
+		name: text(product.name),
+		price: toNumber(offers?.price ?? offers?.lowPrice),
+		rating: toNumber(rating?.ratingValue),
+		reviews: toNumber(rating?.reviewCount ?? rating?.ratingCount),
+		seller: nameOf(offers?.seller),
+		sku: text(product.sku),
+	};
+}
+
+function extractMicrodata($: cheerio.CheerioAPI): StructuredProduct {
+	const $product = $('[itemtype*="schema.org/Product"]').first();
+	if ($product.length === 0) return {};
+
+	const prop = (name: string, $scope = $product) => {
+		const $el = $scope.find(`[itemprop="${name}"]`).first();
+		if ($el.length === 0) return undefined;
+		return (
+			$el.attr("content") ??
+			$el.attr("href") ??
+			$el.attr("src") ??
+			$el.text()
+		).trim();
+	};
+
+	const $offers = $product.find('[itemprop="offers"]').first();
+	const $brand = $product.find('[itemprop="brand"]').first();
+
+	return {
+		availability: schemaEnum(prop("availability", $offers)),
+		brand:
+			$brand.find('[itemprop="name"]').first().text().trim() ||
+			$brand.attr("content") ||
+			$brand.text().trim(),
+		currency: prop("priceCurrency", $offers),
+		description: prop("description"),
+		gtin: prop("gtin13") ?? prop("gtin12") ?? prop("gtin"),
+		image: prop("image"),
+		mpn: prop("mpn"),
+		name: prop("name"),
+		price: toNumber(prop("price", $offers) ?? prop("lowPrice", $offers)),
+		rating: toNumber(prop("ratingValue")),
+		reviews: toNumber(prop("reviewCount") ?? prop("ratingCount")),
+		sku: prop("sku"),
+	};
+}
+
+function extractOpenGraph($: cheerio.CheerioAPI): StructuredProduct {
+	const meta = (...names: string[]) => {
+		for (const name of names) {
+			const value = $(
+				`meta[property="${name}"], meta[name="${name}"]`
+			).attr("content");
+			if (value?.trim()) return value.trim();
+		}
+		return undefined;
+	};
+
+	return {
+		availability: schemaEnum(
+			meta("product:availability", "og:availability")
+		),
+		brand: meta("product:brand", "og:brand"),
+		currency: meta("product:price:currency", "og:price:currency"),
+		description: meta("og:description", "description"),
+		image: meta("og:image", "og:image:url"),
+		name: meta("og:title"),
+		price: toNumber(meta("product:price:amount", "og:price:amount")),
+		sku: meta("product:retailer_item_id"),
+	};
+}
+
+function firstNode(value: unknown): JsonLdNode | undefined {
+	const node = Array.isArray(value) ? value[0] : value;
+	if (!node || typeof node !== "object") return undefined;
+	// AggregateOffer nests the individual offers
+	const offers = (node as JsonLdNode).offers;
+	if (
+		offers &&
+		!(node as JsonLdNode).price &&
+		!(node as JsonLdNode).lowPrice
+	) {
+		return firstNode(offers);
+	}
+	return node as JsonLdNode;
+}
+
+function hasType(node: JsonLdNode, type: string) {
+	const value = node["@type"];
+	return Array.isArray(value) ? value.includes(type) : value === type;
+}
+
+function imageOf(value: unknown): string | undefined {
+	if (Array.isArray(value)) return imageOf(value[0]);
+	if (value && typeof value === "object") {
+		return text(
+			(value as JsonLdNode).url ?? (value as JsonLdNode).contentUrl
+		);
+	}
+	return text(value);
+}
+
+function nameOf(value: unknown): string | undefined {
+	if (Array.isArray(value)) return nameOf(value[0]);
+	if (value && typeof value === "object") {
+		return text((value as JsonLdNode).name);
+	}
+	return text(value);
+}
+
+/**
+ * Turns `https://schema.org/InStock` (or `instock`, `in stock`) into
+ * `InStock`.
+ */
+function schemaEnum(value: unknown): string | undefined {
+	const raw = text(value);
+	if (!raw) return undefined;
+	const last = raw.split("/").pop() ?? raw;
+	return last
+		.split(/[\s_-]+/)
+		.map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+		.join("");
+}
+
+function text(value: unknown): string | undefined {
+	if (typeof value === "string") return value.trim() || undefined;
+	if (typeof value === "number") return String(value);
+	return undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+	if (typeof value === "number") return value;
+	if (typeof value !== "string") return undefined;
+	return parsePrice(value)?.amount;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+
+import { sleep, TaskExecutor, TimeoutError } from "./task-executor.js";
+
+const unlimited = {
+	burst: 100,
+	globalConcurrency: 10,
+	keyConcurrency: 10,
+	ratePerSecond: 1000,
+	timeoutMs: 1000,
+};
+
+/**
+ * Runs `count` tasks and reports the most that were running at once.
+ */
+async function peakConcurrency(
+	executor: TaskExecutor,
+	keys: string[],
+	count: number
+) {
+	let active = 0;
+	let peak = 0;
+	await Promise.all(
+		Array.from({ length: count }, (_, index) =>
+			executor.run(keys[index % keys.length], async () => {
+				peak = Math.max(peak, ++active);
+				await sleep(10);
+				active--;
+			})
+		)
+	);
+	return peak;
+}
+
+describe("TaskExecutor", () => {
+	it("caps concurrency across all keys", async () => {
+		const executor = new TaskExecutor({
+			...unlimited,
+			globalConcurrency: 3,
+		});
+
+		expect(await peakConcurrency(executor, ["amazon", "ebay"], 8)).toBe(3);
+	});
+
+	it("caps concurrency per key", async () => {
+		const executor = new TaskExecutor({ ...unlimited, keyConcurrency: 2 });
+
+		expect(await peakConcurrency(executor, ["amazon"], 6)).toBe(2);
+		expect(await peakConcurrency(executor, ["amazon", "ebay"], 8)).toBe(4);
+	});
+
+	it("starts waiting tasks in the order they were queued", async () => {
+		const executor = new TaskExecutor({ ...unlimited, keyConcurrency: 1 });
+		const started: number[] = [];
+
+		await Promise.all(
+			[1, 2, 3, 4].map((index) =>
+				executor.run("amazon", async () => {
+					started.push(index);
+					await sleep(5);
+				})
+			)
+		);
+
+		expect(started).toEqual([1, 2, 3, 4]);
+	});
+
+	it("spaces calls once a key's burst is spent", async () => {
+		const executor = new TaskExecutor({
+			...unlimited,
+			burst: 1,
+			ratePerSecond: 20,
+		});
+		const startedAt = Date.now();
+
+		for (let index = 0; index < 3; index++) {
+			await executor.run("amazon", async () => {});
+		}
+
+		expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+	});
+
+	it("aborts a task that runs past its timeout", async () => {
+		const executor = new TaskExecutor(unlimited);
+		let signal: AbortSignal | undefined;
+
+		await expect(
+			executor.run(
+				"amazon",
+				async (taskSignal) => {
+					signal = taskSignal;
+					await sleep(1000);
+				},
+				{ timeoutMs: 20 }
+			)
+		).rejects.toBeInstanceOf(TimeoutError);
+		expect(signal?.aborted).toBe(true);
+	});
+
+	it("drops a queued task when its caller aborts", async () => {
+		const executor = new TaskExecutor({ ...unlimited, keyConcurrency: 1 });
+		const controller = new AbortController();
+		const ran: string[] = [];
+
+		const first = executor.run("amazon", async () => {
+			await sleep(20);
+			ran.push("first");
+		});
+		const queued = executor.run(
+			"amazon",
+			async () => {
+				ran.push("queued");
+			},
+			{ signal: controller.signal }
+		);
+		const next = executor.run("amazon", async () => {
+			ran.push("next");
+		});
+		controller.abort(new Error("caller went away"));
+
+		await expect(queued).rejects.toThrow("caller went away");
+		await Promise.all([first, next]);
+		expect(ran).toEqual(["first", "next"]);
+	});
+
+	it("rejects straight away with an already aborted signal", async () => {
+		const executor = new TaskExecutor(unlimited);
+		let ran = false;
+
+		await expect(
+			executor.run(
+				"amazon",
+				async () => {
+					ran = true;
+				},
+				{ signal: AbortSignal.abort(new Error("cancelled")) }
+			)
+		).rejects.toThrow("cancelled");
+		expect(ran).toBe(false);
+	});
+});
@@ -0,0 +1,228 @@
+export interface ExecutorOptions {
+	/** Bucket size, i.e. how many calls a key may burst. */
+	burst: number;
+	globalConcurrency: number;
+	keyConcurrency: number;
+	/** Tokens added per second to each key's bucket. */
+	ratePerSecond: number;
+	timeoutMs: number;
+}
+
+export interface RunOptions {
+	signal?: AbortSignal;
+	timeoutMs?: number;
+}
+
+class Semaphore {
+	private active = 0;
+	private readonly waiting: Array<() => void> = [];
+
+	constructor(private readonly limit: number) {}
+
+	async acquire(signal: AbortSignal) {
+		throwIfAborted(signal);
+		if (this.active < this.limit) {
+			this.active++;
+			return;
+		}
+		await new Promise<void>((resolve, reject) => {
+			const grant = () => {
+				signal.removeEventListener("abort", cancel);
+				this.active++;
+				resolve();
+			};
+			const cancel = () => {
+				const index = this.waiting.indexOf(grant);
+				if (index !== -1) this.waiting.splice(index, 1);
+				reject(abortError(signal));
+			};
+			this.waiting.push(grant);
+			signal.addEventListener("abort", cancel, { once: true });
+		});
+	}
+
+	release() {
+		this.active--;
+		this.waiting.shift()?.();
+	}
+}
+
+class TokenBucket {
+	private tokens: number;
+	private updatedAt = Date.now();
+
+	constructor(
+		private readonly capacity: number,
+		private readonly ratePerSecond: number
+	) {
+		this.tokens = capacity;
+	}
+
+	async take(signal: AbortSignal) {
+		for (;;) {
+			throwIfAborted(signal);
+			this.refill();
+			if (this.tokens >= 1 || this.ratePerSecond <= 0) {
+				this.tokens--;
+				return;
+			}
+			const waitMs = ((1 - this.tokens) / this.ratePerSecond) * 1000;
+			await sleep(waitMs, signal);
+		}
+	}
+
+	private refill() {
+		const now = Date.now();
+		this.tokens = Math.min(
+			this.capacity,
+			this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond
+		);
+		this.updatedAt = now;
+	}
+}
+
+/**
+ * Runs async tasks with a global concurrency cap, a concurrency cap and a
+ * token-bucket rate limit per key (usually a platform), and a timeout that
+ * aborts the task's signal.
+ */
+export class TaskExecutor {
+	private readonly buckets = new Map<string, TokenBucket>();
+	private readonly global: Semaphore;
+	private readonly keys = new Map<string, Semaphore>();
+	private readonly options: ExecutorOptions;
+
+	constructor(options: Partial<ExecutorOptions> = {}) {
+		this.options = {
+			burst: options.burst ?? Number(process.env.FETCH_BURST || 2),
+			globalConcurrency:
+				options.globalConcurrency ??
+				Number(process.env.FETCH_CONCURRENCY || 8),
+			keyConcurrency:
+				options.keyConcurrency ??
+				Number(process.env.FETCH_PLATFORM_CONCURRENCY || 2),
+			ratePerSecond:
+				options.ratePerSecond ??
+				Number(process.env.FETCH_RATE_PER_SECOND || 2),
+			timeoutMs:
+				options.timeoutMs ??
+				Number(process.env.FETCH_TIMEOUT_MS || 30000),
+		};
+		this.global = new Semaphore(this.options.globalConcurrency);
+	}
+
+	async run<T>(
+		key: string,
+		task: (signal: AbortSignal) => Promise<T>,
+		options: RunOptions = {}
+	): Promise<T> {
+		const controller = new AbortController();
+		const abort = () => controller.abort(options.signal?.reason);
+		if (options.signal?.aborted) abort();
+		options.signal?.addEventListener("abort", abort, { once: true });
+
+		const keySemaphore = this.semaphoreFor(key);
+		try {
+			await keySemaphore.acquire(controller.signal);
+			try {
+				await this.global.acquire(controller.signal);
+				try {
+					await this.bucketFor(key).take(controller.signal);
+					return await withTimeout(
+						task,
+						controller,
+						options.timeoutMs ?? this.options.timeoutMs
+					);
+				} finally {
+					this.global.release();
+				}
+			} finally {
+				keySemaphore.release();
+			}
+		} finally {
+			options.signal?.removeEventListener("abort", abort);
+		}
+	}
+
+	private bucketFor(key: string) {
+		let bucket = this.buckets.get(key);
+		if (!bucket) {
+			bucket = new TokenBucket(
+				this.options.burst,
+				this.options.ratePerSecond
+			);
+			this.buckets.set(key, bucket);
+		}
+		return bucket;
+	}
+
+	private semaphoreFor(key: string) {
+		let semaphore = this.keys.get(key);
+		if (!semaphore) {
+			semaphore = new Semaphore(this.options.keyConcurrency);
+			this.keys.set(key, semaphore);
+		}
+		return semaphore;
+	}
+}
+
+export class TimeoutError extends Error {
+	constructor(timeoutMs: number) {
+		super(`Request timed out after ${timeoutMs}ms`);
+		this.name = "TimeoutError";
+	}
+}
+
+export function sleep(ms: number, signal?: AbortSignal) {
+	return new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(abortError(signal));
+			return;
+		}
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", cancel);
+			resolve();
+		}, ms);
+		const cancel = () => {
+			clearTimeout(timer);
+			reject(abortError(signal!));
+		};
+		signal?.addEventListener("abort", cancel, { once: true });
+	});
+}
+
+function abortError(signal: AbortSignal) {
+	return signal.reason instanceof Error
+		? signal.reason
+		: new Error("Request was cancelled");
+}
+
+function throwIfAborted(signal: AbortSignal) {
+	if (signal.aborted) throw abortError(signal);
+}
+
+async function withTimeout<T>(
+	task: (signal: AbortSignal) => Promise<T>,
+	controller: AbortController,
+	timeoutMs: number
+) {
+	throwIfAborted(controller.signal);
+	const timer = setTimeout(
+		() => controller.abort(new TimeoutError(timeoutMs)),
+		timeoutMs
+	);
+	try {
+		return await Promise.race([
+			task(controller.signal),
+			new Promise<never>((_, reject) => {
+				controller.signal.addEventListener(
+					"abort",
+					() => reject(abortError(controller.signal)),
+					{ once: true }
+				);
+			}),
+		]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
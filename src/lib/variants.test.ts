@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+
+import { findVariant } from "./variants.js";
+
+const variants = [
+	{ available: true, name: "Blue / 128 GB", price: 799 },
+	{ available: false, name: "Blue / 256 GB", price: 899 },
+	{ available: true, name: "M (EU 40)" },
+	{ name: "Crème" },
+];
+
+describe("findVariant", () => {
+	it("matches names ignoring case, accents and separators", () => {
+		expect(findVariant(variants, "blue, 128GB")?.price).toBe(799);
+		expect(findVariant(variants, "creme")?.name).toBe("Crème");
+	});
+
+	it("accepts a partial name that fits exactly one variant", () => {
+		expect(findVariant(variants, "M")?.name).toBe("M (EU 40)");
+		expect(findVariant(variants, "Blue")).toBeUndefined();
+	});
+
+	it("finds nothing for unknown names or missing variants", () => {
+		expect(findVariant(variants, "XL")).toBeUndefined();
+		expect(findVariant(undefined, "M")).toBeUndefined();
+	});
+});
@@ -0,0 +1,44 @@
+export interface ProductVariant {
+	available?: boolean;
+	name: string;
+	price?: number;
+}
+
+/**
+ * Finds the variant a user tracks among a page's variants. Names are
+ * compared ignoring case, accents and separators, so "Blue / 128 GB"
+ * matches "blue, 128GB"; a name that only matches part of a variant
+ * ("M" for "M (EU 40)") is accepted when exactly one variant contains it.
+ */
+export function findVariant<T extends ProductVariant>(
+	variants: T[] | undefined,
+	name: string
+): T | undefined {
+	const wanted = variantKey(name);
+	if (!wanted || !variants?.length) return undefined;
+
+	const exact = variants.find(
+		(variant) => variantKey(variant.name) === wanted
+	);
+	if (exact) return exact;
+
+	const tokens = wanted.split(" ");
+	const partial = variants.filter((variant) => {
+		const candidate = new Set(variantKey(variant.name).split(" "));
+		return tokens.every((token) => candidate.has(token));
+	});
+	return partial.length === 1 ? partial[0] : undefined;
+}
+
+/**
+ * The normalized form variant names are compared in.
+ */
+export function variantKey(name: string) {
+	return name
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/(\d)\s+(?=[a-z])/g, "$1")
+		.replace(/[^a-z0-9.]+/g, " ")
+		.trim();
+}
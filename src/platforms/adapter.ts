@@ -0,0 +1,67 @@
+import * as cheerio from "cheerio";
+
+import { ProductDetail, ScrapedProduct } from "../services/scraper-service.js";
+
+export type DatasetRecord = Record<string, unknown>;
+
+/**
+ * The `id` of a registered adapter, or `unknown` for sites none of them
+ * matches.
+ */
+export type Platform = string;
+
+/**
+ * Everything the server needs to know about one retailer. Built-in adapters
+ * live next to this file; more can be loaded from `PLATFORM_ADAPTERS_DIR`.
+ */
+export interface PlatformAdapter {
+	buildSearchUrl(query: string, page: number, storefront: Storefront): string;
+	/**
+	 * Stable product ID and canonical URL of a product page. The canonical
+	 * URL is built on the matched storefront, so `amazon.com` and
+	 * `smile.amazon.com` both give `https://www.amazon.com/…`.
+	 */
+	canonicalUrl?: {
+		canonical(id: string, url: URL, storefront: Storefront): string;
+		id(url: URL): string | undefined;
+	};
+	/** Bright Data dataset that collects product pages, if there is one. */
+	datasetId?: string;
+	id: Platform;
+	/** Maps one dataset snapshot record onto product fields. */
+	mapDatasetRecord?(record: DatasetRecord): Partial<ProductDetail>;
+	name: string;
+	/** False when the whole result set comes on one page. */
+	paginated?: boolean;
+	/**
+	 * Code parsers, used when no selector config is loaded for the
+	 * platform (see `src/lib/selector-config.ts`). `currency` is the
+	 * storefront's, for prices shown with a bare `$` or no symbol.
+	 */
+	parseProduct?(
+		$: cheerio.CheerioAPI,
+		baseUrl: string,
+		currency?: string
+	): ProductDetail;
+	parseSearch?(
+		$: cheerio.CheerioAPI,
+		baseUrl: string,
+		currency?: string
+	): ScrapedProduct[];
+	/** Regional sites; the first one is the default. */
+	storefronts: Storefront[];
+}
+
+/**
+ * One regional site of a platform. Most storefronts have their own domain;
+ * Zara serves every country from zara.com under a `/<country>/<language>`
+ * path prefix.
+ */
+export interface Storefront {
+	currency: string;
+	domain: string;
+	locale: string;
+	pathPrefix?: string;
+	/** ISO 3166-1 alpha-2 country code. */
+	region: string;
+}
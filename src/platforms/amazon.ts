@@ -0,0 +1,64 @@
+import { PlatformAdapter } from "./adapter.js";
+import {
+	defineStorefront,
+	firstOf,
+	lastOf,
+	match,
+	number,
+	origin,
+	pairs,
+	text,
+	variants,
+} from "./helpers.js";
+
+export const amazon: PlatformAdapter = {
+	buildSearchUrl: (query, page, storefront) => {
+		const q = encodeURIComponent(query);
+		return `${origin(storefront)}/s?k=${q}${page > 1 ? `&page=${page}` : ""}`;
+	},
+	canonicalUrl: {
+		canonical: (id, _, storefront) => `${origin(storefront)}/dp/${id}`,
+		id: (url) =>
+			match(
+				url.pathname,
+				/\/(?:dp|gp\/product|gp\/aw\/d|exec\/obidos\/ASIN|o\/ASIN)\/([A-Z0-9]{10})(?:[/?]|$)/i
+			)?.toUpperCase(),
+	},
+	datasetId: "gd_l7q7dkf244hwjntr0",
+	id: "amazon",
+	mapDatasetRecord: (record) => ({
+		availability: text(record.availability),
+		brand: text(record.brand),
+		category: lastOf(record.categories),
+		description: text(record.description),
+		gtin: text(record.upc) ?? text(record.ean),
+		image: text(record.image_url) ?? firstOf(record.images),
+		mpn: text(record.model_number),
+		name: text(record.title),
+		rating: number(record.rating),
+		reviews: number(record.reviews_count),
+		seller: text(record.seller_name),
+		shippingInfo: firstOf(record.delivery),
+		sku: text(record.asin),
+		specifications: pairs(record.product_details, "type", "value"),
+		variants: variants(record.variations, "name", "price"),
+	}),
+	name: "Amazon",
+	storefronts: [
+		defineStorefront("amazon.com", "US", "USD", "en-US"),
+		defineStorefront("amazon.ca", "CA", "CAD", "en-CA"),
+		defineStorefront("amazon.co.uk", "GB", "GBP", "en-GB"),
+		defineStorefront("amazon.de", "DE", "EUR", "de-DE"),
+		defineStorefront("amazon.fr", "FR", "EUR", "fr-FR"),
+		defineStorefront("amazon.it", "IT", "EUR", "it-IT"),
+		defineStorefront("amazon.es", "ES", "EUR", "es-ES"),
+		defineStorefront("amazon.nl", "NL", "EUR", "nl-NL"),
+		defineStorefront("amazon.se", "SE", "SEK", "sv-SE"),
+		defineStorefront("amazon.pl", "PL", "PLN", "pl-PL"),
+		defineStorefront("amazon.com.au", "AU", "AUD", "en-AU"),
+		defineStorefront("amazon.co.jp", "JP", "JPY", "ja-JP"),
+		defineStorefront("amazon.in", "IN", "INR", "en-IN"),
+		defineStorefront("amazon.com.mx", "MX", "MXN", "es-MX"),
+		defineStorefront("amazon.com.br", "BR", "BRL", "pt-BR"),
+	],
+};
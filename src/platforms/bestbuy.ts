@@ -0,0 +1,55 @@
+import { PlatformAdapter } from "./adapter.js";
+import {
+	defineStorefront,
+	firstOf,
+	lastOf,
+	match,
+	number,
+	origin,
+	pairs,
+	text,
+} from "./helpers.js";
+
+export const bestbuy: PlatformAdapter = {
+	buildSearchUrl: (query, page, storefront) => {
+		const q = encodeURIComponent(query);
+		return storefront.region === "CA"
+			? `${origin(storefront)}/en-ca/search?search=${q}${page > 1 ? `&page=${page}` : ""}`
+			: `${origin(storefront)}/site/searchpage.jsp?st=${q}&intl=nosplash${page > 1 ? `&cp=${page}` : ""}`;
+	},
+	canonicalUrl: {
+		canonical: (id, _, storefront) =>
+			storefront.region === "CA"
+				? `${origin(storefront)}/en-ca/product/${id}`
+				: `${origin(storefront)}/site/${id}.p?skuId=${id}`,
+		id: (url) =>
+			url.searchParams.get("skuId") ??
+			match(url.pathname, /\/(\d{6,8})\.p(?:$|\/)/) ??
+			match(url.pathname, /\/product\/(?:[^/]+\/)?(\d{8})(?:$|\/)/),
+	},
+	datasetId: "gd_ltre1jqe1jfr7cccf",
+	id: "bestbuy",
+	mapDatasetRecord: (record) => ({
+		availability: text(record.availability),
+		brand: text(record.brand),
+		category: lastOf(record.breadcrumbs),
+		description: text(record.product_description),
+		gtin: text(record.upc),
+		image: firstOf(record.images) ?? text(record.image),
+		mpn: text(record.model),
+		name: text(record.title),
+		rating: number(record.rating),
+		reviews: number(record.reviews_count),
+		sku: text(record.sku),
+		specifications: pairs(
+			record.product_specifications,
+			"specification_name",
+			"specification_value"
+		),
+	}),
+	name: "Best Buy",
+	storefronts: [
+		defineStorefront("bestbuy.com", "US", "USD", "en-US"),
+		defineStorefront("bestbuy.ca", "CA", "CAD", "en-CA"),
+	],
+};
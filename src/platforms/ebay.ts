@@ -0,0 +1,51 @@
+import { PlatformAdapter } from "./adapter.js";
+import {
+	defineStorefront,
+	firstOf,
+	lastOf,
+	match,
+	number,
+	origin,
+	pairs,
+	text,
+} from "./helpers.js";
+
+export const ebay: PlatformAdapter = {
+	buildSearchUrl: (query, page, storefront) => {
+		const q = encodeURIComponent(query);
+		return `${origin(storefront)}/sch/i.html?_nkw=${q}${page > 1 ? `&_pgn=${page}` : ""}`;
+	},
+	canonicalUrl: {
+		canonical: (id, _, storefront) => `${origin(storefront)}/itm/${id}`,
+		id: (url) =>
+			match(url.pathname, /\/itm\/(?:[^/]+\/)?(\d{9,15})(?:[/?]|$)/) ??
+			url.searchParams.get("item") ??
+			undefined,
+	},
+	datasetId: "gd_ltr9mjt81n0zzdk1fb",
+	id: "ebay",
+	mapDatasetRecord: (record) => ({
+		availability: text(record.availability),
+		brand: text(record.brand),
+		category: lastOf(record.breadcrumbs),
+		description: text(record.description),
+		image: firstOf(record.images) ?? text(record.image_url),
+		name: text(record.title) ?? text(record.product_name),
+		reviews: number(record.product_ratings),
+		seller: text(record.seller_name),
+		shippingInfo: text(record.shipping),
+		sku: text(record.product_id),
+		specifications: pairs(record.product_specifications, "name", "value"),
+	}),
+	name: "eBay",
+	storefronts: [
+		defineStorefront("ebay.com", "US", "USD", "en-US"),
+		defineStorefront("ebay.ca", "CA", "CAD", "en-CA"),
+		defineStorefront("ebay.co.uk", "GB", "GBP", "en-GB"),
+		defineStorefront("ebay.de", "DE", "EUR", "de-DE"),
+		defineStorefront("ebay.fr", "FR", "EUR", "fr-FR"),
+		defineStorefront("ebay.it", "IT", "EUR", "it-IT"),
+		defineStorefront("ebay.es", "ES", "EUR", "es-ES"),
+		defineStorefront("ebay.com.au", "AU", "AUD", "en-AU"),
+	],
+};
@@ -0,0 +1,38 @@
+import { PlatformAdapter } from "./adapter.js";
+import {
+	defineStorefront,
+	firstOf,
+	lastOf,
+	match,
+	number,
+	origin,
+	text,
+	variants,
+} from "./helpers.js";
+
+export const etsy: PlatformAdapter = {
+	buildSearchUrl: (query, page, storefront) => {
+		const q = encodeURIComponent(query);
+		return `${origin(storefront)}/search?q=${q}${page > 1 ? `&page=${page}` : ""}`;
+	},
+	canonicalUrl: {
+		canonical: (id, _, storefront) => `${origin(storefront)}/listing/${id}`,
+		id: (url) => match(url.pathname, /\/listing\/(\d+)/),
+	},
+	datasetId: "gd_ltppk0jdv1jqz25mz",
+	id: "etsy",
+	mapDatasetRecord: (record) => ({
+		category: lastOf(record.breadcrumbs) ?? lastOf(record.category_tree),
+		description: text(record.item_details) ?? text(record.description),
+		image: firstOf(record.images),
+		name: text(record.title),
+		rating: number(record.rating),
+		reviews: number(record.reviews_count_item) ?? number(record.reviews),
+		seller: text(record.seller_shop_name) ?? text(record.seller_name),
+		shippingInfo: text(record.shipping_return_policies),
+		sku: text(record.product_id) ?? text(record.listing_id),
+		variants: variants(record.variations, "name", "price"),
+	}),
+	name: "Etsy",
+	storefronts: [defineStorefront("etsy.com", "US", "USD", "en-US")],
+};
@@ -0,0 +1,110 @@
+import { parsePrice } from "../lib/price-parser.js";
+import { DatasetRecord, Storefront } from "./adapter.js";
+
+export function defineStorefront(
+	domain: string,
+	region: string,
+	currency: string,
+	locale: string,
+	pathPrefix?: string
+): Storefront {
+	return {
+		currency,
+		domain,
+		locale,
+		region,
+		...(pathPrefix ? { pathPrefix } : {}),
+	};
+}
+
+export function firstOf(value: unknown) {
+	return Array.isArray(value) ? text(value[0]) : undefined;
+}
+
+export function lastOf(value: unknown) {
+	if (!Array.isArray(value) || value.length === 0) return undefined;
+	const last = value[value.length - 1];
+	return text(
+		typeof last === "object" && last !== null
+			? (last as DatasetRecord).name
+			: last
+	);
+}
+
+export function match(value: string, pattern: RegExp) {
+	return pattern.exec(value)?.[1];
+}
+
+export function number(value: unknown) {
+	if (typeof value === "number") {
+		return Number.isFinite(value) ? value : undefined;
+	}
+	if (typeof value === "string") {
+		const parsed = parseFloat(value.replace(/,/g, ""));
+		return Number.isFinite(parsed) ? parsed : undefined;
+	}
+	return undefined;
+}
+
+export function origin(storefront: Storefront) {
+	return `https://www.${storefront.domain}`;
+}
+
+/**
+ * Turns `[{ name: "Color", value: "Red" }]` into `{ Color: "Red" }`.
+ */
+export function pairs(value: unknown, key: string, field: string) {
+	if (!Array.isArray(value)) return undefined;
+	const result: Record<string, string> = {};
+	for (const entry of value) {
+		const name = text((entry as DatasetRecord)?.[key]);
+		const content = text((entry as DatasetRecord)?.[field]);
+		if (name && content) result[name] = content;
+	}
+	return result;
+}
+
+/**
+ * Turns displayed price text into the price fields of a scraped product.
+ * Ranges keep their upper bound in `priceMax`; a bare `$` or a missing
+ * currency symbol falls back to the storefront's currency.
+ */
+export function priceFields(text: string, storefrontCurrency = "USD") {
+	const parsed = parsePrice(text, storefrontCurrency);
+	return {
+		currency: parsed?.currency ?? storefrontCurrency,
+		price: parsed?.amount ?? NaN,
+		...(parsed?.max !== undefined ? { priceMax: parsed.max } : {}),
+	};
+}
+
+export function priceOf(value: unknown, storefrontCurrency?: string) {
+	if (typeof value === "number") {
+		return Number.isFinite(value) ? { amount: value } : undefined;
+	}
+	if (typeof value === "string") {
+		return parsePrice(value, storefrontCurrency);
+	}
+	return undefined;
+}
+
+export function text(value: unknown) {
+	if (typeof value === "string") return value.trim() || undefined;
+	if (typeof value === "number") return String(value);
+	return undefined;
+}
+
+export function variants(value: unknown, key: string, field: string) {
+	if (!Array.isArray(value)) return undefined;
+	return value
+		.map((entry: DatasetRecord) => ({
+			...(typeof entry?.available === "boolean"
+				? { available: entry.available }
+				: {}),
+			name: text(entry?.[key]) ?? "",
+			...(priceOf(entry?.[field])
+				? { price: priceOf(entry[field])!.amount }
+				: {}),
+		}))
+		.filter((variant) => variant.name);
+}
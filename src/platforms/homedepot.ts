@@ -0,0 +1,43 @@
+import { PlatformAdapter } from "./adapter.js";
+import {
+	defineStorefront,
+	firstOf,
+	lastOf,
+	match,
+	number,
+	origin,
+	pairs,
+	text,
+} from "./helpers.js";
+
+export const homedepot: PlatformAdapter = {
+	buildSearchUrl: (query, page, storefront) => {
+		const q = encodeURIComponent(query);
+		// Home Depot pages by result offset, 24 products per page
+		return `${origin(storefront)}/search?q=${q}${page > 1 ? `&Nao=${(page - 1) * 24}` : ""}`;
+	},
+	canonicalUrl: {
+		canonical: (id, _, storefront) => `${origin(storefront)}/p/${id}`,
+		id: (url) => match(url.pathname, /\/p\/(?:[^/]+\/)?(\d{9})(?:[/?]|$)/),
+	},
+	datasetId: "gd_lmusivh019i7g97q2n",
+	id: "homedepot",
+	mapDatasetRecord: (record) => ({
+		availability: text(record.availability),
+		brand: text(record.brand),
+		category: lastOf(record.breadcrumbs),
+		description: text(record.description),
+		image: firstOf(record.images) ?? text(record.main_image),
+		mpn: text(record.model_number),
+		name: text(record.product_name) ?? text(record.title),
+		rating: number(record.rating),
+		reviews: number(record.reviews_count),
+		sku: text(record.sku) ?? text(record.product_id),
+		specifications: pairs(record.specifications, "name", "value"),
+	}),
+	name: "The Home Depot",
+	storefronts: [
+		defineStorefront("homedepot.com", "US", "USD", "en-US"),
+		defineStorefront("homedepot.ca", "CA", "CAD", "en-CA"),
+	],
+};
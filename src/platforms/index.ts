@@ -0,0 +1,18 @@
+import { PlatformAdapter } from "./adapter.js";
+import { amazon } from "./amazon.js";
+import { bestbuy } from "./bestbuy.js";
+import { ebay } from "./ebay.js";
+import { etsy } from "./etsy.js";
+import { homedepot } from "./homedepot.js";
+import { walmart } from "./walmart.js";
+import { zara } from "./zara.js";
+
+export const builtinAdapters: PlatformAdapter[] = [
+	amazon,
+	bestbuy,
+	ebay,
+	etsy,
+	homedepot,
+	walmart,
+	zara,
+];
@@ -0,0 +1,47 @@
+import { PlatformAdapter } from "./adapter.js";
+import {
+	defineStorefront,
+	firstOf,
+	lastOf,
+	match,
+	number,
+	origin,
+	pairs,
+	text,
+} from "./helpers.js";
+
+export const walmart: PlatformAdapter = {
+	buildSearchUrl: (query, page, storefront) => {
+		const q = encodeURIComponent(query);
+		return `${origin(storefront)}/search?q=${q}${page > 1 ? `&page=${page}` : ""}`;
+	},
+	canonicalUrl: {
+		canonical: (id, _, storefront) => `${origin(storefront)}/ip/${id}`,
+		id: (url) => match(url.pathname, /\/ip\/(?:[^/]+\/)?(\d+)(?:[/?]|$)/),
+	},
+	datasetId: "gd_l95fol7l1ru6rlo116",
+	id: "walmart",
+	mapDatasetRecord: (record) => ({
+		availability:
+			record.available_for_delivery === false &&
+			record.available_for_pickup === false
+				? "Out of stock"
+				: text(record.availability),
+		brand: text(record.brand),
+		category: lastOf(record.categories),
+		description: text(record.description),
+		gtin: text(record.gtin) ?? text(record.upc),
+		image: text(record.main_image) ?? firstOf(record.image_urls),
+		name: text(record.product_name) ?? text(record.title),
+		rating: number(record.rating),
+		reviews: number(record.review_count),
+		seller: text(record.seller),
+		sku: text(record.sku) ?? text(record.product_id),
+		specifications: pairs(record.specifications, "name", "value"),
+	}),
+	name: "Walmart",
+	storefronts: [
+		defineStorefront("walmart.com", "US", "USD", "en-US"),
+		defineStorefront("walmart.ca", "CA", "CAD", "en-CA"),
+	],
+};
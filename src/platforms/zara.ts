@@ -0,0 +1,49 @@
+import { PlatformAdapter } from "./adapter.js";
+import {
+	defineStorefront,
+	firstOf,
+	match,
+	origin,
+	text,
+	variants,
+} from "./helpers.js";
+
+export const zara: PlatformAdapter = {
+	buildSearchUrl: (query, page, storefront) => {
+		const q = encodeURIComponent(query);
+		return `${origin(storefront)}${storefront.pathPrefix}/search?q=${q}`;
+	},
+	canonicalUrl: {
+		// Keep the localized path; the product ID is the `-p<digits>` suffix
+		canonical: (_, url, storefront) =>
+			`${origin(storefront)}${url.pathname}`,
+		id: (url) => match(url.pathname, /-p(\d+)\.html$/),
+	},
+	datasetId: "gd_lct4vafw1tgx27d4o0",
+	id: "zara",
+	mapDatasetRecord: (record) => ({
+		availability: text(record.availability) ?? text(record.stock),
+		category: text(record.category),
+		description: text(record.description),
+		image: firstOf(record.image) ?? text(record.image),
+		name: text(record.product_name) ?? text(record.name),
+		sku: text(record.sku) ?? text(record.product_id),
+		variants: variants(record.sizes, "size", "price"),
+	}),
+	name: "Zara",
+	// The whole result set comes on one page
+	paginated: false,
+	storefronts: [
+		defineStorefront("zara.com", "US", "USD", "en-US", "/us/en"),
+		defineStorefront("zara.com", "CA", "CAD", "en-CA", "/ca/en"),
+		defineStorefront("zara.com", "GB", "GBP", "en-GB", "/uk/en"),
+		defineStorefront("zara.com", "DE", "EUR", "de-DE", "/de/de"),
+		defineStorefront("zara.com", "FR", "EUR", "fr-FR", "/fr/fr"),
+		defineStorefront("zara.com", "IT", "EUR", "it-IT", "/it/it"),
+		defineStorefront("zara.com", "ES", "EUR", "es-ES", "/es/es"),
+		defineStorefront("zara.com", "NL", "EUR", "nl-NL", "/nl/nl"),
+		defineStorefront("zara.com", "MX", "MXN", "es-MX", "/mx/es"),
+		defineStorefront("zara.com", "JP", "JPY", "ja-JP", "/jp/ja"),
+		defineStorefront("zara.com", "AU", "AUD", "en-AU", "/au/en"),
+	],
+};
@@ -1,140 +1,126 @@
-import axios from "axios";
 import { FastMCP } from "fastmcp";
 // import { createRequire } from "node:module";
 import { z } from "zod";
 import "dotenv/config";
 
+import { STOCK_STATUSES } from "./lib/availability.js";
+import { createBrightDataClient } from "./lib/brightdata-client.js";
+import { loadTaxRates, withLandedCost } from "./lib/landed-cost.js";
+import { validateSelectors } from "./lib/parser-fixtures.js";
+import { platformRegistry } from "./lib/platform-registry.js";
+import { ProductMatcher } from "./lib/product-matching.js";
+import { classifyError, ServiceHealth } from "./lib/resilience.js";
+import { createResponseCache } from "./lib/response-cache.js";
+import { parseSelectorConfig, selectorStore } from "./lib/selector-config.js";
+import { TaskExecutor } from "./lib/task-executor.js";
+import { Platform } from "./platforms/adapter.js";
+import { AlertService } from "./services/alert-service.js";
+import { CurrencyService } from "./services/currency-service.js";
+import {
+	DatasetJobService,
+	describeJob,
+	recordsForUrl,
+} from "./services/dataset-job-service.js";
+import { normalizeSnapshot } from "./services/dataset-normalizer.js";
+import { ParserHealthService } from "./services/parser-health-service.js";
+import { PriceHistoryService } from "./services/price-history-service.js";
+import {
+	BatchLookupResult,
+	detectPlatform,
+	getDatasetId,
+	PlatformSearchResult,
+	ProductData,
+	ProductLookupService,
+} from "./services/product-lookup-service.js";
 import { ProductService } from "./services/product-service.js";
+import { RefreshScheduler } from "./services/refresh-scheduler.js";
 import { ScraperService } from "./services/scraper-service.js";
+import { StockHistoryService } from "./services/stock-history-service.js";
 
 // Initialize services
-const productService = new ProductService();
-const scraperService = new ScraperService();
+const brightData = createBrightDataClient();
+const serviceHealth = new ServiceHealth();
+const responseCache = createResponseCache();
+const alertService = new AlertService();
+const currencyService = new CurrencyService();
+const datasetJobService = new DatasetJobService(brightData, serviceHealth);
+const parserHealthService = new ParserHealthService();
+const priceHistoryService = new PriceHistoryService();
+const productMatcher = new ProductMatcher();
+const productService = new ProductService(alertService);
+const scraperService = new ScraperService(platformRegistry, (report) =>
+	parserHealthService.record(report)
+);
+const stockHistoryService = new StockHistoryService();
+const productLookupService = new ProductLookupService(
+	brightData,
+	scraperService,
+	new TaskExecutor(),
+	serviceHealth,
+	datasetJobService,
+	responseCache
+);
 
-const api_token = process.env.BRIGHT_DATA_API_TOKEN;
 const unlocker_zone = process.env.WEB_UNLOCKER_ZONE || "ecommerce_tracker";
 
-if (!api_token) {
-	throw new Error("Cannot run MCP server without BRIGHT_DATA_API_TOKEN env");
-}
+const taxRates = process.env.TAX_RATES_FILE
+	? loadTaxRates(process.env.TAX_RATES_FILE)
+	: {};
 
-const api_headers = () => ({
-	authorization: `Bearer ${api_token}`,
-	"user-agent": `pricemorphe/1.0.0`,
-});
+if (process.env.PLATFORM_ADAPTERS_DIR) {
+	const loaded = await platformRegistry.loadDirectory(
+		process.env.PLATFORM_ADAPTERS_DIR
+	);
+	console.error(`Loaded platform adapters: ${loaded.join(", ") || "none"}`);
+}
 
-export type Platform =
-	| "amazon"
-	| "bestbuy"
-	| "ebay"
-	| "etsy"
-	| "homedepot"
-	| "unknown"
-	| "walmart"
-	| "zara";
-
-interface ProductData {
-	data: unknown;
-	method: string;
-	platform: Platform;
-	url: string;
+if (process.env.SELECTORS_WATCH !== "false") {
+	selectorStore.watch();
 }
 
-interface ServerTools {
-	// Product Search and Comparison Tools
-	compare_prices: {
-		execute: (args: {
-			platforms?: Platform[];
-			query?: string;
-			urls?: string[];
-		}) => Promise<string>;
-	};
-	get_price_update: {
-		execute: (args: { urls: string[] }) => Promise<string>;
-	};
-	get_product_details: {
-		execute: (args: { url: string }) => Promise<ProductData>;
-	};
-
-	get_user_tracked_products: {
-		execute: (args: {
-			include_price_history?: boolean;
-			userId: string;
-		}) => Promise<string>;
-	};
-	search_products: {
-		execute: (args: {
-			max_results?: number;
-			platforms?: Platform[];
-			query: string;
-		}) => Promise<{ results: ProductData[] }>;
-	};
-	track_product: {
-		execute: (args: {
-			productDetails: Record<string, unknown>;
-			url: string;
-			userId: string;
-		}) => Promise<string>;
-	};
-	untrack_product: {
-		execute: (args: {
-			productId: string;
-			userId: string;
-		}) => Promise<string>;
-	};
-	update_product_prices: {
-		execute: (args: {
-			updates: Array<{
-				currentPrice: number;
-				id: string;
-			}>;
-		}) => Promise<string>;
-	};
+/**
+ * The registered platform ids as a zod enum, so tool parameters accept
+ * adapters loaded at startup too.
+ */
+function platformEnum(...extra: string[]) {
+	return z.enum([...platformRegistry.ids(), ...extra] as [
+		string,
+		...string[],
+	]);
 }
 
 const server = new FastMCP({
 	name: "PriceMorphe",
 	version: "1.0.0",
-}) as { tools: ServerTools } & FastMCP;
+});
 
 // Ensure required zones exist
 async function ensure_required_zones() {
 	try {
 		console.error("Checking for required zones...");
-		const response = await axios({
-			headers: api_headers(),
-			method: "GET",
-			url: "https://api.brightdata.com/zone/get_active_zones",
-		});
-		const zones = response.data || [];
-		const has_unlocker_zone = zones.some(
-			(zone: { name: string }) => zone.name == unlocker_zone
-		);
-		if (!has_unlocker_zone) {
-			console.error(
-				`Required zone "${unlocker_zone}" not found, creating it...`
+		await serviceHealth.call("zones", async () => {
+			const zones = await brightData.getActiveZones();
+			const has_unlocker_zone = zones.some(
+				(zone) => zone.name == unlocker_zone
 			);
-			await axios({
-				data: {
-					plan: { type: "unblocker" },
-					zone: { name: unlocker_zone, type: "unblocker" },
-				},
-				headers: {
-					...api_headers(),
-					"Content-Type": "application/json",
-				},
-				method: "POST",
-				url: "https://api.brightdata.com/zone",
-			});
-			console.error(`Zone "${unlocker_zone}" created successfully`);
-		} else {
-			console.error(`Required zone "${unlocker_zone}" already exists`);
-		}
-		// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	} catch (e: any) {
+			if (!has_unlocker_zone) {
+				console.error(
+					`Required zone "${unlocker_zone}" not found, creating it...`
+				);
+				await brightData.createZone(unlocker_zone);
+				console.error(`Zone "${unlocker_zone}" created successfully`);
+			} else {
+				console.error(
+					`Required zone "${unlocker_zone}" already exists`
+				);
+			}
+		});
+		serviceHealth.recordCheck("zones");
+	} catch (e: unknown) {
+		serviceHealth.recordCheck("zones", e);
 		console.error(
 			"Error checking/creating zones:",
-			e.response?.data || e.message
+			classifyError(e).message
 		);
 	}
 }
@@ -145,89 +131,63 @@ await ensure_required_zones();
 server.addTool({
 	description:
 		"Search for products across multiple e-commerce platforms (Amazon, eBay, Walmart, etc.). Returns structured product data including prices, ratings, and availability.",
-	execute: async ({ platforms, query }) => {
-		const results: Array<{
-			data?: unknown;
-			error?: string;
-			platform: Platform;
-			search_url: string;
-		}> = [];
-
-		for (const platform of platforms) {
-			try {
-				let search_url = "";
-				switch (platform) {
-					case "amazon":
-						search_url = `https://www.amazon.com/s?k=${encodeURIComponent(query)}`;
-						break;
-					case "bestbuy":
-						search_url = `https://www.bestbuy.com/site/searchpage.jsp?st=${encodeURIComponent(query)}&intl=nosplash`;
-						break;
-					case "ebay":
-						search_url = `https://www.ebay.com/sch/i.html?_nkw=${encodeURIComponent(query)}`;
-						break;
-					case "etsy":
-						search_url = `https://www.etsy.com/search?q=${encodeURIComponent(query)}`;
-						break;
-					case "homedepot":
-						search_url = `https://www.homedepot.com/search?q=${encodeURIComponent(query)}`;
-						break;
-					case "walmart":
-						search_url = `https://www.walmart.com/search?q=${encodeURIComponent(query)}`;
-						break;
-					case "zara":
-						search_url = `https://www.zara.com/us/en/search?q=${encodeURIComponent(query)}`;
-						break;
-				}
-
-				const response = await axios({
-					data: {
-						format: "raw",
-						url: search_url,
-						zone: unlocker_zone,
-					},
-					headers: api_headers(),
-					method: "POST",
-					responseType: "text",
-					url: "https://api.brightdata.com/request",
-				});
-
-				const baseUrl = new URL(search_url).origin;
-				const parsedProducts = scraperService.parseSearchResults(
-					response.data,
-					platform,
-					baseUrl
-				);
-
-				results.push({
-					data: parsedProducts,
-					platform,
-					search_url,
-				});
-			} catch (e: unknown) {
-				results.push({
-					error:
-						e instanceof Error
-							? e.message
-							: "An unknown error occurred",
-					platform,
-					search_url: "",
-				});
-			}
+	execute: async ({
+		cursor,
+		force_refresh,
+		max_age,
+		max_results,
+		page,
+		platforms,
+		query,
+		region,
+		target_currency,
+	}) => {
+		if (!query && !cursor) {
+			throw new Error("Either query or cursor must be provided");
 		}
-
-		return JSON.stringify(
+		const search_results = await productLookupService.searchProducts(
+			query ?? "",
+			platforms,
 			{
-				platforms_searched: platforms,
-				query,
-				results,
-			},
-			null,
-			2
+				cache: responseCache.policy("search_products", {
+					force_refresh,
+					max_age,
+				}),
+				cursor,
+				maxResults: max_results,
+				page,
+				region,
+			}
 		);
+		if (target_currency) {
+			search_results.results = await currencyService.convertSearchResults(
+				search_results.results,
+				target_currency
+			);
+		}
+		return JSON.stringify(search_results, null, 2);
 	},
 	name: "search_products",
 	parameters: z.object({
+		cursor: z
+			.string()
+			.optional()
+			.describe(
+				"next_cursor from a previous search_products call, to fetch the next results. Replaces query, platforms and page."
+			),
+		force_refresh: z
+			.boolean()
+			.optional()
+			.default(false)
+			.describe("Skip the cache and fetch fresh data from Bright Data"),
+		max_age: z
+			.number()
+			.int()
+			.min(0)
+			.optional()
+			.describe(
+				"Only accept cached data younger than this many seconds (defaults to the tool's cache TTL)"
+			),
 		max_results: z
 			.number()
 			.min(1)
@@ -235,158 +195,308 @@ server.addTool({
 			.optional()
 			.default(10)
 			.describe("Maximum number of results per platform"),
+		page: z
+			.number()
+			.int()
+			.min(1)
+			.optional()
+			.default(1)
+			.describe("Results page to fetch from each platform"),
 		platforms: z
-			.array(
-				z.enum([
-					"amazon",
-					"ebay",
-					"walmart",
-					"etsy",
-					"bestbuy",
-					"homedepot",
-					"zara",
-				])
-			)
+			.array(platformEnum())
 			.optional()
 			.default(["amazon", "ebay", "walmart"])
 			.describe("E-commerce platforms to search"),
-		query: z.string().describe("Product search query"),
+		query: z.string().optional().describe("Product search query"),
+		region: z
+			.string()
+			.length(2)
+			.toUpperCase()
+			.optional()
+			.describe(
+				"Country code of the storefronts to search, e.g. GB for amazon.co.uk and ebay.co.uk. Platforms without a storefront there use their default one."
+			),
+		target_currency: z
+			.string()
+			.length(3)
+			.toUpperCase()
+			.optional()
+			.describe(
+				"ISO 4217 currency code to convert every price into, e.g. USD or EUR"
+			),
 	}),
 });
 
 // Get detailed product information
 server.addTool({
 	description:
-		"Get detailed information about a specific product from its URL. Supports Amazon, eBay, Walmart, Etsy, BestBuy, Home Depot, and Zara.",
-	execute: async ({ url }) => {
-		const platform = detect_platform(url);
-		const dataset_id = get_dataset_id(platform);
-
-		if (!dataset_id) {
-			// Fallback to general scraping
-			const response = await axios({
-				data: {
-					format: "raw",
-					url,
-					zone: unlocker_zone,
-				},
-				headers: api_headers(),
-				method: "POST",
-				responseType: "text",
-				url: "https://api.brightdata.com/request",
-			});
-			const baseUrl = new URL(url).origin;
-			const parsedProduct = scraperService.parseProductDetails(
-				response.data,
-				platform,
-				baseUrl
-			);
+		"Get detailed information about a specific product from its URL. Supports Amazon, eBay, Walmart, Etsy, BestBuy, Home Depot, and Zara. Dataset-backed platforms run as a job: if it is not done within wait_seconds, the response has data: null and a job_id to check with get_job_status / get_job_result.",
+	execute: async (
+		{ force_refresh, include_raw, max_age, url, wait_seconds },
+		{ reportProgress }
+	) => {
+		const product_data = await productLookupService.getProductDetails(url, {
+			cache: responseCache.policy("get_product_details", {
+				force_refresh,
+				max_age,
+			}),
+			includeRaw: include_raw,
+			onProgress: reportProgress,
+			waitMs: wait_seconds * 1000,
+		});
+		return JSON.stringify(product_data, null, 2);
+	},
+	name: "get_product_details",
+	parameters: z.object({
+		force_refresh: z
+			.boolean()
+			.optional()
+			.default(false)
+			.describe("Skip the cache and fetch fresh data from Bright Data"),
+		include_raw: z
+			.boolean()
+			.optional()
+			.default(false)
+			.describe(
+				"Include the unmodified dataset records under raw (dataset-backed platforms only)"
+			),
+		max_age: z
+			.number()
+			.int()
+			.min(0)
+			.optional()
+			.describe(
+				"Only accept cached data younger than this many seconds (defaults to the tool's cache TTL)"
+			),
+		url: z.string().url().describe("Product URL"),
+		wait_seconds: z
+			.number()
+			.int()
+			.min(0)
+			.max(120)
+			.optional()
+			.default(20)
+			.describe(
+				"How long to wait for a dataset job before returning its job_id (0 returns immediately)"
+			),
+	}),
+});
 
-			return JSON.stringify(
-				{
-					data: parsedProduct,
-					method: "scraping",
-					platform,
+// Dataset jobs
+server.addTool({
+	description:
+		"Start dataset collection jobs for many product URLs without waiting. URLs are grouped into one snapshot per platform. Returns the job ids to check with get_job_status and get_job_result.",
+	execute: async ({ urls }) => {
+		const by_platform = new Map<Platform, string[]>();
+		const unsupported: string[] = [];
+		for (const url of new Set(urls)) {
+			const platform = detectPlatform(url);
+			if (getDatasetId(platform)) {
+				by_platform.set(platform, [
+					...(by_platform.get(platform) ?? []),
 					url,
-				},
-				null,
-				2
-			);
+				]);
+			} else {
+				unsupported.push(url);
+			}
 		}
 
-		// Use structured dataset
-		const trigger_response = await axios({
-			data: [{ url }],
-			headers: api_headers(),
-			method: "POST",
-			params: { dataset_id, include_errors: true },
-			url: "https://api.brightdata.com/datasets/v3/trigger",
-		});
-
-		if (!trigger_response.data?.snapshot_id) {
-			throw new Error("Failed to trigger dataset collection");
+		const jobs = [];
+		for (const [platform, platform_urls] of by_platform) {
+			const job = await datasetJobService.createJob(
+				platform,
+				getDatasetId(platform)!,
+				platform_urls
+			);
+			jobs.push(describeJob(job));
 		}
 
-		const snapshot_id = trigger_response.data.snapshot_id;
-
-		// Poll for results
-		const max_attempts = 30;
-		for (let i = 0; i < max_attempts; i++) {
-			await new Promise((resolve) => setTimeout(resolve, 2000));
-
-			const status_response = await axios({
-				headers: api_headers(),
-				method: "GET",
-				url: `https://api.brightdata.com/datasets/v3/progress/${snapshot_id}`,
-			});
+		return JSON.stringify({ jobs, unsupported }, null, 2);
+	},
+	name: "start_dataset_job",
+	parameters: z.object({
+		urls: z
+			.array(z.string().url())
+			.min(1)
+			.describe("Product URLs to collect"),
+	}),
+});
 
-			if (status_response.data.status === "running") continue;
+server.addTool({
+	description:
+		"Check the status of a dataset job (running, ready or failed). Set wait_seconds to keep polling, with progress notifications, until it finishes.",
+	execute: async ({ job_id, wait_seconds }, { reportProgress }) => {
+		const job =
+			wait_seconds > 0
+				? await datasetJobService.waitForJob(job_id, {
+						onProgress: reportProgress,
+						timeoutMs: wait_seconds * 1000,
+					})
+				: await datasetJobService.getJob(job_id);
+		return JSON.stringify(describeJob(job), null, 2);
+	},
+	name: "get_job_status",
+	parameters: z.object({
+		job_id: z.string().describe("ID of the job"),
+		wait_seconds: z
+			.number()
+			.int()
+			.min(0)
+			.max(120)
+			.optional()
+			.default(0)
+			.describe("How long to wait for the job to finish"),
+	}),
+});
 
-			if (status_response.data.status === "failed") {
-				throw new Error("Dataset collection failed");
+server.addTool({
+	description:
+		"Get the products collected by a finished dataset job, normalized to the same shape as get_product_details. Pass url to return only one of the job's products, and include_raw to add the unmodified dataset records.",
+	execute: async ({ include_raw, job_id, url }) => {
+		const job = await datasetJobService.getJobResult(job_id);
+		const products = (url ? [url] : job.urls).map((product_url) => {
+			const records = recordsForUrl(job, product_url);
+			try {
+				return {
+					data: normalizeSnapshot(records, job.platform, product_url),
+					...(include_raw ? { raw: records } : {}),
+					url: product_url,
+				};
+			} catch (e: unknown) {
+				return {
+					error: (e as Error).message,
+					...(include_raw ? { raw: records } : {}),
+					url: product_url,
+				};
 			}
-
-			// Get results
-			const results_response = await axios({
-				headers: api_headers(),
-				method: "GET",
-				url: `https://api.brightdata.com/datasets/v3/snapshot/${snapshot_id}`,
-			});
-
-			const product_data = {
-				data: results_response.data,
-				method: "structured_dataset",
-				platform,
-				url,
-			};
-
-			return JSON.stringify(product_data, null, 2);
-		}
-
-		throw new Error("Timeout waiting for dataset results");
+		});
+		return JSON.stringify({ ...describeJob(job), products }, null, 2);
 	},
-	name: "get_product_details",
+	name: "get_job_result",
 	parameters: z.object({
-		url: z.string().url().describe("Product URL"),
+		include_raw: z
+			.boolean()
+			.optional()
+			.default(false)
+			.describe("Include the unmodified dataset records"),
+		job_id: z.string().describe("ID of the job"),
+		url: z
+			.string()
+			.url()
+			.optional()
+			.describe("Only return the records for this URL"),
 	}),
 });
 
 // Price comparison across platforms
 server.addTool({
 	description:
-		"Compare prices for a product across multiple e-commerce platforms. Provide either a search query or specific product URLs.",
-	execute: async ({ platforms, query, urls }) => {
-		let comparison_results = [];
+		"Compare prices for a product across multiple e-commerce platforms. Provide either a search query or specific product URLs. Results are grouped into clusters of offers for the same product, matched by GTIN/UPC or MPN when known and by title, brand and specifications otherwise, each with a confidence score and its cheapest offer. Offers are ranked by estimated landed cost: price less clip-on coupons (and member or subscribe-and-save prices when asked for), plus shipping and sales tax for the destination zip.",
+	execute: async ({
+		force_refresh,
+		max_age,
+		member_pricing,
+		platforms,
+		query,
+		region,
+		subscribe_and_save,
+		target_currency,
+		tax_rates,
+		urls,
+		zip,
+	}) => {
+		const cache = responseCache.policy("compare_prices", {
+			force_refresh,
+			max_age,
+		});
+		let comparison_results: Array<
+			Omit<BatchLookupResult, "data"> | PlatformSearchResult | ProductData
+		> = [];
 
 		if (urls && urls.length > 0) {
 			// Compare specific URLs
-			for (const url of urls) {
-				try {
-					const product_details =
-						await server.tools.get_product_details.execute({ url });
-					comparison_results.push(product_details);
-				} catch (e: unknown) {
-					console.log((e as Error).message);
+			const lookups = await productLookupService.getManyProductDetails(
+				urls,
+				{ cache }
+			);
+			for (const lookup of lookups) {
+				if (!lookup.data) {
+					comparison_results.push({
+						duration_ms: lookup.duration_ms,
+						error: lookup.error,
+						error_kind: lookup.error_kind,
+						url: lookup.url,
+					});
+					continue;
 				}
+				const product_details = lookup.data;
+				if (target_currency && product_details.data) {
+					const [data] = await currencyService.convertProducts(
+						[product_details.data],
+						target_currency
+					);
+					product_details.data = data;
+				}
+				comparison_results.push(product_details);
 			}
 		} else if (query) {
 			// Search and compare
-			const search_results = await server.tools.search_products.execute({
-				// max_results: 5,
-				platforms,
+			const search_results = await productLookupService.searchProducts(
 				query,
-			});
-			comparison_results = search_results.results;
+				platforms,
+				{ cache, region }
+			);
+			comparison_results = target_currency
+				? await currencyService.convertSearchResults(
+						search_results.results,
+						target_currency
+					)
+				: search_results.results;
 		} else {
 			throw new Error("Either query or urls must be provided");
 		}
 
+		const landed = {
+			memberPricing: member_pricing,
+			subscribeAndSave: subscribe_and_save,
+			taxRates: { ...taxRates, ...tax_rates },
+			zip,
+		};
+		comparison_results = comparison_results.map((result) =>
+			"search_url" in result
+				? {
+						...result,
+						data: result.data?.map((offer) =>
+							withLandedCost(offer, landed)
+						),
+					}
+				: "method" in result
+					? {
+							...result,
+							data:
+								result.data &&
+								withLandedCost(result.data, landed),
+						}
+					: result
+		);
+
+		const offers = comparison_results.flatMap((result) =>
+			"search_url" in result
+				? (result.data ?? [])
+				: "method" in result && result.data
+					? [result.data]
+					: []
+		);
+
 		return JSON.stringify(
 			{
+				clusters: productMatcher.cluster(offers),
 				query: query || null,
 				results: comparison_results,
+				target_currency: target_currency ?? null,
 				timestamp: new Date().toISOString(),
 				type: urls ? "url_comparison" : "search_comparison",
+				zip: zip ?? null,
 			},
 			null,
 			2
@@ -394,45 +504,94 @@ server.addTool({
 	},
 	name: "compare_prices",
 	parameters: z.object({
+		force_refresh: z
+			.boolean()
+			.optional()
+			.default(false)
+			.describe("Skip the cache and fetch fresh data from Bright Data"),
+		max_age: z
+			.number()
+			.int()
+			.min(0)
+			.optional()
+			.describe(
+				"Only accept cached data younger than this many seconds (defaults to the tool's cache TTL)"
+			),
+		member_pricing: z
+			.boolean()
+			.optional()
+			.default(false)
+			.describe(
+				"Count member prices (Prime, Walmart+, ...) in the landed cost"
+			),
 		platforms: z
-			.array(z.enum(["amazon", "ebay", "walmart", "etsy", "bestbuy"]))
+			.array(platformEnum())
 			.optional()
 			.default(["amazon", "ebay", "walmart"])
 			.describe("Platforms to compare (only used with query)"),
 		query: z.string().optional().describe("Product search query"),
+		region: z
+			.string()
+			.length(2)
+			.toUpperCase()
+			.optional()
+			.describe(
+				"Country code of the storefronts to search, e.g. GB for amazon.co.uk and ebay.co.uk. Platforms without a storefront there use their default one."
+			),
+		subscribe_and_save: z
+			.boolean()
+			.optional()
+			.default(false)
+			.describe("Count subscribe-and-save prices in the landed cost"),
+		target_currency: z
+			.string()
+			.length(3)
+			.toUpperCase()
+			.optional()
+			.describe(
+				"ISO 4217 currency code to convert every price into, e.g. USD or EUR"
+			),
+		tax_rates: z
+			.record(z.number().min(0))
+			.optional()
+			.describe(
+				'Sales tax rates in percent by ZIP prefix, e.g. {"10": 8.875}; the longest prefix of zip wins. Adds to the server\'s TAX_RATES_FILE table.'
+			),
 		urls: z
 			.array(z.string().url())
 			.optional()
 			.describe("Specific product URLs to compare"),
+		zip: z
+			.string()
+			.min(3)
+			.optional()
+			.describe(
+				"Destination ZIP or postcode, used to look up the sales tax rate"
+			),
 	}),
 });
 
 // Update prices for tracked products
 server.addTool({
-	description: "Update price information for all tracked products.",
+	description:
+		"Fetch current price information for the given product URLs. Nothing is stored; use start_refresh_job to refresh every tracked product.",
 	execute: async ({ urls }) => {
-		const updates = [];
-
-		for (const product_url of urls) {
-			try {
-				const current_data =
-					await server.tools.get_product_details.execute({
-						url: product_url,
-					});
-
-				updates.push({
-					data: current_data,
-					status: "updated",
-					url: product_url,
-				});
-			} catch (e: unknown) {
-				updates.push({
-					error: (e as Error).message,
-					status: "error",
-					url: product_url,
-				});
-			}
-		}
+		const lookups = await productLookupService.getManyProductDetails(urls);
+		const updates = lookups.map((lookup) =>
+			lookup.data
+				? {
+						data: lookup.data,
+						duration_ms: lookup.duration_ms,
+						status: "updated",
+						url: lookup.url,
+					}
+				: {
+						duration_ms: lookup.duration_ms,
+						error: lookup.error,
+						status: "error",
+						url: lookup.url,
+					}
+		);
 
 		return JSON.stringify(
 			{
@@ -450,66 +609,137 @@ server.addTool({
 			.array(z.string().url())
 			.optional()
 			.default([])
-			.describe("Specific product URLs to update"),
+			.describe("Product URLs to fetch"),
 	}),
 });
 
 // Product Management Tools
 server.addTool({
-	description: "Get all products tracked by a specific user",
-	execute: async ({ include_price_history, userId }) => {
+	description:
+		"Get all products tracked by a specific user, including their target price (in cents/pennies) and tracking type",
+	execute: async ({ include_price_history, target_currency, userId }) => {
 		const products = await productService.getUserTrackedProducts(
 			userId,
 			include_price_history
 		);
+		if (target_currency) {
+			const converted = await currencyService.convertTrackedProducts(
+				products,
+				target_currency
+			);
+			return JSON.stringify(converted, null, 2);
+		}
 		return JSON.stringify(products, null, 2);
 	},
 	name: "get_user_tracked_products",
 	parameters: z.object({
 		include_price_history: z.boolean().optional().default(false),
+		target_currency: z
+			.string()
+			.length(3)
+			.toUpperCase()
+			.optional()
+			.describe(
+				"ISO 4217 currency code to convert every price into, e.g. USD or EUR"
+			),
+		userId: z.string(),
+	}),
+});
+
+server.addTool({
+	description:
+		"Summarise the price history of a user's tracked products: min/max/average, all-time low with date, percentage change over 7/30/90 days, volatility and a downsampled series for charting. Amounts are in cents/pennies.",
+	execute: async ({ bucket, productIds, userId }) => {
+		const stats = await priceHistoryService.getPriceHistoryStats(userId, {
+			bucket,
+			productIds,
+		});
+		return JSON.stringify(stats, null, 2);
+	},
+	name: "get_price_history_stats",
+	parameters: z.object({
+		bucket: z
+			.enum(["daily", "weekly"])
+			.optional()
+			.default("daily")
+			.describe("Bucket size of the returned price series"),
+		productIds: z
+			.array(z.string())
+			.optional()
+			.describe("Limit the stats to these tracked products"),
 		userId: z.string(),
 	}),
 });
 
 server.addTool({
 	description:
-		"Track a new product for a user. All prices are stored in cents/pennies to avoid floating point issues.",
+		"Show when a user's tracked products went in and out of stock: every change of stock status (in_stock, low_stock, out_of_stock, preorder) with the quantity left when known, the current status and since when, and the same per variant.",
+	execute: async ({ days, productIds, userId }) => {
+		const history = await stockHistoryService.getStockHistory(userId, {
+			days,
+			productIds,
+		});
+		return JSON.stringify(history, null, 2);
+	},
+	name: "get_stock_history",
+	parameters: z.object({
+		days: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe("Only look at the last this many days"),
+		productIds: z
+			.array(z.string())
+			.optional()
+			.describe("Limit the history to these tracked products"),
+		userId: z.string(),
+	}),
+});
+
+server.addTool({
+	description:
+		"Track a new product for a user. All prices are stored in cents/pennies to avoid floating point issues. The URL is stored in canonical form (tracking parameters removed, short links expanded); if the user already tracks the same product, the existing product is returned with already_tracked: true. Pass variant to track one size, color or configuration with its own price and stock history and alerts.",
 	execute: async ({
+		currency,
 		name,
 		platform,
 		target_price,
 		tracking_type,
 		url,
 		userId,
+		variant,
 	}) => {
 		const product = await productService.trackProduct(userId, {
+			currency,
 			name,
 			platform,
 			target_price: target_price ? Math.round(target_price * 100) : null, // Convert to cents/pennies
 			tracking_type,
 			url,
+			variant,
 		});
 		return JSON.stringify(product, null, 2);
 	},
 	name: "track_product",
 	parameters: z.object({
+		currency: z
+			.string()
+			.length(3)
+			.toUpperCase()
+			.optional()
+			.default("USD")
+			.describe("ISO 4217 currency code the product is listed in"),
 		name: z.string().describe("Product name"),
-		platform: z
-			.enum([
-				"amazon",
-				"ebay",
-				"walmart",
-				"etsy",
-				"bestbuy",
-				"homedepot",
-				"zara",
-				"unknown",
-			])
-			.describe("The e-commerce platform where the product is listed"),
+		platform: platformEnum("unknown").describe(
+			"The e-commerce platform where the product is listed"
+		),
 		target_price: z
 			.number()
 			.optional()
-			.describe("Target price for price alerts (in dollars)"),
+			.describe(
+				"Target price for price alerts (in major units of the product currency, e.g. dollars)"
+			),
 		tracking_type: z
 			.enum(["price", "stock", "both"])
 			.default("price")
@@ -518,6 +748,49 @@ server.addTool({
 		userId: z
 			.string()
 			.describe("User ID to associate the tracked product with"),
+		variant: z
+			.string()
+			.optional()
+			.describe(
+				"Track only this variant (size, color or configuration), named as in the variants of get_product_details"
+			),
+	}),
+});
+
+server.addTool({
+	description:
+		"Update the target price or tracking type of a product a user already tracks. Prices are stored in cents/pennies.",
+	execute: async ({ productId, target_price, tracking_type, userId }) => {
+		const product = await productService.updateTrackedProduct(
+			userId,
+			productId,
+			{
+				target_price:
+					target_price === undefined
+						? undefined
+						: target_price === null
+							? null
+							: Math.round(target_price * 100), // Convert to cents/pennies
+				tracking_type,
+			}
+		);
+		return JSON.stringify(product, null, 2);
+	},
+	name: "update_tracked_product",
+	parameters: z.object({
+		productId: z.string().describe("ID of the tracked product"),
+		target_price: z
+			.number()
+			.nullable()
+			.optional()
+			.describe(
+				"New target price for price alerts (in dollars), or null to clear it"
+			),
+		tracking_type: z
+			.enum(["price", "stock", "both"])
+			.optional()
+			.describe("What to track: price changes, stock status, or both"),
+		userId: z.string().describe("User ID that owns the tracked product"),
 	}),
 });
 
@@ -535,7 +808,8 @@ server.addTool({
 });
 
 server.addTool({
-	description: "Update prices for multiple tracked products",
+	description:
+		"Update prices and stock status for multiple tracked products. A stock status sets in_stock, and in_stock alone records in_stock or out_of_stock.",
 	execute: async ({ updates }) => {
 		const result = await productService.updateAllProducts(updates);
 		return JSON.stringify(result, null, 2);
@@ -544,37 +818,198 @@ server.addTool({
 	parameters: z.object({
 		updates: z.array(
 			z.object({
+				currency: z
+					.string()
+					.length(3)
+					.toUpperCase()
+					.optional()
+					.describe("ISO 4217 currency code of the price"),
 				currentPrice: z.number(),
 				id: z.string(),
+				in_stock: z
+					.boolean()
+					.optional()
+					.describe("Whether the product is currently in stock"),
+				stock_quantity: z
+					.number()
+					.int()
+					.nonnegative()
+					.optional()
+					.describe("Units left, when the page states it"),
+				stock_status: z
+					.enum(STOCK_STATUSES)
+					.optional()
+					.describe("Normalized stock status of the product"),
+				variant_stock: z
+					.array(
+						z.object({
+							name: z.string(),
+							status: z.enum(STOCK_STATUSES),
+						})
+					)
+					.optional()
+					.describe("Stock status of each variant"),
 			})
 		),
 	}),
 });
 
-// Helper functions
-function detect_platform(url: string): Platform {
-	if (url.includes("amazon.")) return "amazon";
-	if (url.includes("ebay.")) return "ebay";
-	if (url.includes("walmart.")) return "walmart";
-	if (url.includes("etsy.")) return "etsy";
-	if (url.includes("bestbuy.")) return "bestbuy";
-	if (url.includes("homedepot.")) return "homedepot";
-	if (url.includes("zara.")) return "zara";
-	return "unknown";
-}
+// Price Alert Tools
+server.addTool({
+	description:
+		"List price and stock alerts fired for a user's tracked products, newest first. Amounts are in cents/pennies.",
+	execute: async ({ include_acknowledged, userId }) => {
+		const alerts = await alertService.listAlerts(
+			userId,
+			include_acknowledged
+		);
+		return JSON.stringify(alerts, null, 2);
+	},
+	name: "list_alerts",
+	parameters: z.object({
+		include_acknowledged: z
+			.boolean()
+			.optional()
+			.default(false)
+			.describe("Also return alerts that were already acknowledged"),
+		userId: z.string(),
+	}),
+});
+
+server.addTool({
+	description: "Mark an alert as seen so it is no longer listed as new",
+	execute: async ({ alertId, userId }) => {
+		const alert = await alertService.acknowledgeAlert(userId, alertId);
+		return JSON.stringify(alert, null, 2);
+	},
+	name: "acknowledge_alert",
+	parameters: z.object({
+		alertId: z.string(),
+		userId: z.string(),
+	}),
+});
+
+server.addTool({
+	description:
+		"Report the health of the Bright Data integration: circuit breaker state, failure counts by error kind (auth, quota, blocked, timeout, parse, ...) and the last error per platform.",
+	execute: async () => {
+		return JSON.stringify(serviceHealth.report(), null, 2);
+	},
+	name: "service_health",
+	parameters: z.object({}),
+});
+
+server.addTool({
+	description:
+		"Run a platform's CSS selector config against a stored HTML sample (or given HTML) and report what each selector matched, which fields matched nothing, the parsed products and, for samples with a golden output, every field that differs from it. Pass `config` to try an edited config before saving it.",
+	execute: async ({ config, html, kind, platform, sample, url }) => {
+		const result = await validateSelectors(platform, {
+			config: config ? parseSelectorConfig(config) : undefined,
+			html,
+			kind,
+			sample,
+			url,
+		});
+		return JSON.stringify(result, null, 2);
+	},
+	name: "validate_selectors",
+	parameters: z.object({
+		config: z
+			.string()
+			.optional()
+			.describe(
+				"Selector config JSON to validate instead of the loaded one"
+			),
+		html: z
+			.string()
+			.optional()
+			.describe("HTML to parse instead of a stored sample"),
+		kind: z
+			.enum(["product", "search"])
+			.optional()
+			.describe("Page kind of `html` (default product)"),
+		platform: platformEnum(),
+		sample: z
+			.string()
+			.optional()
+			.describe(
+				"Stored sample in fixtures/parsers/<platform>, e.g. product or search (default: kind, then product)"
+			),
+		url: z
+			.string()
+			.url()
+			.optional()
+			.describe("URL `html` was saved from; links resolve against it"),
+	}),
+});
+
+server.addTool({
+	description:
+		"Report how completely each platform's parsers fill product fields (name, price, currency, image, ...) over a recent window, per platform and page kind, and flag platforms whose completeness dropped below the drift threshold, which usually means the retailer changed its markup.",
+	execute: async ({ hours, platform }) => {
+		const report = await parserHealthService.report({ hours, platform });
+		return JSON.stringify(report, null, 2);
+	},
+	name: "parser_health",
+	parameters: z.object({
+		hours: z
+			.number()
+			.positive()
+			.optional()
+			.default(24)
+			.describe("Length of the window to report on, in hours"),
+		platform: platformEnum()
+			.optional()
+			.describe("Only report on this platform"),
+	}),
+});
+
+// Background refresh tools
+server.addTool({
+	description:
+		"Start the background job that periodically refreshes prices of all tracked products. Optionally run a refresh immediately.",
+	execute: async ({ run_now }) => {
+		refreshScheduler.start();
+		const run = run_now ? await refreshScheduler.runOnce(true) : null;
+		return JSON.stringify(
+			{
+				run,
+				status: refreshScheduler.status(),
+			},
+			null,
+			2
+		);
+	},
+	name: "start_refresh_job",
+	parameters: z.object({
+		run_now: z
+			.boolean()
+			.optional()
+			.default(false)
+			.describe(
+				"Refresh every tracked product right away instead of waiting for the next scheduled run"
+			),
+	}),
+});
+
+server.addTool({
+	description:
+		"Show the state of the background refresh job, including when each platform was last refreshed and the outcome of the last run.",
+	execute: async () => {
+		return JSON.stringify(refreshScheduler.status(), null, 2);
+	},
+	name: "refresh_status",
+	parameters: z.object({}),
+});
+
+const refreshScheduler = new RefreshScheduler(productService, (urls) =>
+	productLookupService.getManyProductDetails(urls, {
+		waitMs: Number(process.env.REFRESH_DATASET_WAIT_MS || 10 * 60 * 1000),
+	})
+);
 
-function get_dataset_id(platform: Platform): string | undefined {
-	const dataset_map: Record<Platform, string> = {
-		amazon: "gd_l7q7dkf244hwjntr0",
-		bestbuy: "gd_ltre1jqe1jfr7cccf",
-		ebay: "gd_ltr9mjt81n0zzdk1fb",
-		etsy: "gd_ltppk0jdv1jqz25mz",
-		homedepot: "gd_lmusivh019i7g97q2n",
-		unknown: "",
-		walmart: "gd_l95fol7l1ru6rlo116",
-		zara: "gd_lct4vafw1tgx27d4o0",
-	};
-	return dataset_map[platform] || undefined;
+if (process.env.REFRESH_AUTOSTART === "true") {
+	refreshScheduler.start();
 }
 
 server.start();
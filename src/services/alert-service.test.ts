@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { AlertService } from "./alert-service.js";
+
+vi.mock("../lib/prisma.js", () => ({ prisma: {} }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2025-07-01T12:00:00Z");
+
+const price = (amount: number, daysAgo = 0) => ({
+	amount,
+	createdAt: new Date(now.getTime() - daysAgo * DAY_MS),
+	id: `price-${amount}-${daysAgo}`,
+});
+
+const product = (
+	overrides: Partial<{
+		target_price: null | number;
+		tracking_type: string;
+		variant: null | string;
+	}> = {}
+) => ({
+	currency: "USD",
+	name: "Kettle",
+	target_price: null,
+	tracking_type: "both",
+	...overrides,
+});
+
+const alerts = new AlertService({ dropPercent: 10, lowestDays: 30 });
+
+const rules = (context: Parameters<typeof alerts.evaluateRules>[0]) =>
+	alerts.evaluateRules(context).map((alert) => alert.rule);
+
+describe("AlertService.evaluateRules", () => {
+	it("fires below_target when the price crosses the target", () => {
+		const [alert] = alerts.evaluateRules({
+			history: [price(5200, 1)],
+			latest: price(4900),
+			product: product({ target_price: 5000, variant: "1.7 L" }),
+		});
+
+		expect(alert).toEqual({
+			amount: 4900,
+			message:
+				"Kettle (1.7 L) is now USD 49.00, at or below the target of USD 50.00",
+			rule: "below_target",
+		});
+	});
+
+	it("doesn't fire below_target again while the price stays below", () => {
+		expect(
+			rules({
+				history: [price(4900, 1)],
+				latest: price(4800),
+				product: product({ target_price: 5000 }),
+			})
+		).not.toContain("below_target");
+	});
+
+	it("fires price_drop from a drop of at least dropPercent", () => {
+		expect(
+			rules({
+				history: [price(10000, 1)],
+				latest: price(9000),
+				product: product(),
+			})
+		).toContain("price_drop");
+		expect(
+			rules({
+				history: [price(10000, 1)],
+				latest: price(9100),
+				product: product(),
+			})
+		).not.toContain("price_drop");
+	});
+
+	it("fires lowest_in_days below every price in the window", () => {
+		expect(
+			rules({
+				history: [price(9500, 1), price(9200, 10), price(8000, 40)],
+				latest: price(9100),
+				product: product(),
+			})
+		).toEqual(["lowest_in_days"]);
+	});
+
+	it("leaves price rules out for stock-only tracking", () => {
+		expect(
+			rules({
+				history: [price(10000, 1)],
+				latest: price(4000),
+				product: product({
+					target_price: 5000,
+					tracking_type: "stock",
+				}),
+			})
+		).toEqual([]);
+	});
+
+	it("fires back_in_stock only after a known out-of-stock status", () => {
+		const base = {
+			history: [price(5000, 1)],
+			latest: price(5000),
+			product: product(),
+		};
+
+		expect(
+			rules({ ...base, currentInStock: true, previousInStock: false })
+		).toEqual(["back_in_stock"]);
+		expect(
+			rules({ ...base, currentInStock: true, previousInStock: null })
+		).toEqual([]);
+		expect(rules({ ...base, currentInStock: true })).toEqual([]);
+		expect(
+			rules({
+				...base,
+				currentInStock: true,
+				previousInStock: false,
+				product: product({ tracking_type: "price" }),
+			})
+		).toEqual([]);
+	});
+});
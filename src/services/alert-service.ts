@@ -0,0 +1,244 @@
+import { prisma } from "../lib/prisma.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AlertRule =
+	| "back_in_stock"
+	| "below_target"
+	| "lowest_in_days"
+	| "price_drop";
+
+interface AlertCandidate {
+	amount: null | number;
+	message: string;
+	rule: AlertRule;
+}
+
+interface AlertOptions {
+	dropPercent: number;
+	lowestDays: number;
+}
+
+interface PricePoint {
+	amount: number;
+	createdAt: Date;
+	id: string;
+}
+
+interface PriceUpdateContext {
+	currentInStock?: boolean | null;
+	history: PricePoint[];
+	latest: PricePoint;
+	previousInStock?: boolean | null;
+	product: {
+		currency?: string;
+		name: string;
+		target_price: null | number;
+		tracking_type: string;
+		variant?: null | string;
+	};
+}
+
+export class AlertService {
+	private readonly options: AlertOptions;
+
+	constructor(options: Partial<AlertOptions> = {}) {
+		this.options = {
+			dropPercent:
+				options.dropPercent ??
+				Number(process.env.ALERT_DROP_PERCENT || 10),
+			lowestDays:
+				options.lowestDays ??
+				Number(process.env.ALERT_LOWEST_DAYS || 30),
+		};
+	}
+
+	async acknowledgeAlert(userId: string, alertId: string) {
+		const alert = await prisma.alert.findFirst({
+			where: {
+				id: alertId,
+				Product: { User: { userId } },
+			},
+		});
+
+		if (!alert) {
+			throw new Error("Alert not found");
+		}
+
+		return await prisma.alert.update({
+			data: {
+				acknowledged: true,
+				acknowledgedAt: new Date(),
+			},
+			where: { id: alert.id },
+		});
+	}
+
+	/**
+	 * Runs every rule against the newest price of a product and stores one
+	 * alert per firing. A rule that already has an unacknowledged alert for
+	 * the same amount is skipped, so repeated refreshes don't pile up
+	 * duplicates.
+	 */
+	async evaluatePriceUpdate(
+		productId: string,
+		stock: {
+			currentInStock?: boolean | null;
+			previousInStock?: boolean | null;
+		}
+	) {
+		const since = new Date(Date.now() - this.options.lowestDays * DAY_MS);
+		const product = await prisma.product.findUnique({
+			include: {
+				prices: {
+					orderBy: { createdAt: "desc" },
+					where: { createdAt: { gte: since } },
+				},
+			},
+			where: { id: productId },
+		});
+
+		if (!product) {
+			return [];
+		}
+
+		let prices = product.prices as PricePoint[];
+		if (prices.length < 2) {
+			// Nothing else in the window; still compare against the last
+			// recorded price for the crossing and drop rules.
+			prices = await prisma.price.findMany({
+				orderBy: { createdAt: "desc" },
+				take: 2,
+				where: { productId },
+			});
+		}
+		if (prices.length === 0) {
+			return [];
+		}
+
+		const [latest, ...history] = prices;
+		const candidates = this.evaluateRules({
+			...stock,
+			history,
+			latest,
+			product,
+		});
+
+		const created = [];
+		for (const candidate of candidates) {
+			const existing = await prisma.alert.findFirst({
+				where: {
+					acknowledged: false,
+					amount: candidate.amount,
+					productId,
+					rule: candidate.rule,
+				},
+			});
+			if (existing) continue;
+
+			created.push(
+				await prisma.alert.create({
+					data: {
+						...candidate,
+						priceId: latest.id,
+						productId,
+					},
+				})
+			);
+		}
+
+		return created;
+	}
+
+	evaluateRules(context: PriceUpdateContext): AlertCandidate[] {
+		const { history, latest, product } = context;
+		const name = product.variant
+			? `${product.name} (${product.variant})`
+			: product.name;
+		const previous = history[0];
+		const watchesPrice = product.tracking_type !== "stock";
+		const watchesStock = product.tracking_type !== "price";
+		const alerts: AlertCandidate[] = [];
+
+		if (
+			watchesPrice &&
+			product.target_price !== null &&
+			latest.amount <= product.target_price &&
+			(!previous || previous.amount > product.target_price)
+		) {
+			alerts.push({
+				amount: latest.amount,
+				message: `${name} is now ${formatCents(latest.amount, product.currency)}, at or below the target of ${formatCents(product.target_price, product.currency)}`,
+				rule: "below_target",
+			});
+		}
+
+		if (watchesPrice && previous && previous.amount > 0) {
+			const drop =
+				((previous.amount - latest.amount) / previous.amount) * 100;
+			if (drop >= this.options.dropPercent) {
+				alerts.push({
+					amount: latest.amount,
+					message: `${name} dropped ${drop.toFixed(1)}% from ${formatCents(previous.amount, product.currency)} to ${formatCents(latest.amount, product.currency)}`,
+					rule: "price_drop",
+				});
+			}
+		}
+
+		const since =
+			latest.createdAt.getTime() - this.options.lowestDays * DAY_MS;
+		const window = history.filter(
+			(price) => price.createdAt.getTime() >= since
+		);
+		if (
+			watchesPrice &&
+			window.length > 0 &&
+			latest.amount < Math.min(...window.map((price) => price.amount))
+		) {
+			alerts.push({
+				amount: latest.amount,
+				message: `${name} is at its lowest price in ${this.options.lowestDays} days: ${formatCents(latest.amount, product.currency)}`,
+				rule: "lowest_in_days",
+			});
+		}
+
+		if (
+			watchesStock &&
+			context.previousInStock === false &&
+			context.currentInStock === true
+		) {
+			alerts.push({
+				amount: null,
+				message: `${name} is back in stock`,
+				rule: "back_in_stock",
+			});
+		}
+
+		return alerts;
+	}
+
+	async listAlerts(userId: string, include_acknowledged = false) {
+		return await prisma.alert.findMany({
+			include: {
+				Product: {
+					select: {
+						id: true,
+						name: true,
+						platform: true,
+						url: true,
+						variant: true,
+					},
+				},
+			},
+			orderBy: { createdAt: "desc" },
+			where: {
+				...(include_acknowledged ? {} : { acknowledged: false }),
+				Product: { User: { userId } },
+			},
+		});
+	}
+}
+
+function formatCents(amount: number, currency = "USD") {
+	return `${currency} ${(amount / 100).toFixed(2)}`;
+}
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { StaticExchangeRateProvider } from "../lib/exchange-rates.js";
+import { crossRate, CurrencyService } from "./currency-service.js";
+
+vi.mock("../lib/prisma.js", () => ({
+	prisma: {
+		exchangeRate: {
+			createMany: vi.fn(async () => ({ count: 0 })),
+			findMany: vi.fn(async () => []),
+		},
+	},
+}));
+
+const rates = {
+	base: "USD",
+	day: "2025-06-01",
+	rates: { EUR: 0.8, GBP: 0.75, USD: 1 },
+};
+
+describe("crossRate", () => {
+	it("converts through the base currency", () => {
+		expect(crossRate(rates, "USD", "EUR")).toBe(0.8);
+		expect(crossRate(rates, "EUR", "USD")).toBe(1.25);
+		expect(crossRate(rates, "EUR", "GBP")).toBeCloseTo(0.9375);
+	});
+
+	it("names the currency it has no rate for", () => {
+		expect(() => crossRate(rates, "XYZ", "USD")).toThrow(
+			"No exchange rate for XYZ on 2025-06-01"
+		);
+		expect(() => crossRate(rates, "USD", "XYZ")).toThrow(
+			"No exchange rate for XYZ on 2025-06-01"
+		);
+	});
+});
+
+describe("CurrencyService", () => {
+	let currency: CurrencyService;
+
+	beforeEach(() => {
+		currency = new CurrencyService(
+			new StaticExchangeRateProvider({
+				base: "USD",
+				days: {
+					"2025-06-01": { EUR: 0.8 },
+					"2025-07-01": { EUR: 0.9 },
+				},
+			})
+		);
+	});
+
+	it("rounds converted cents", async () => {
+		expect(
+			await currency.convertCents(
+				999,
+				"usd",
+				"eur",
+				new Date("2025-06-15")
+			)
+		).toEqual({
+			amount: 799,
+			currency: "EUR",
+			rate: 0.8,
+			rate_date: "2025-06-01",
+		});
+	});
+
+	it("leaves products it can't convert unconverted", async () => {
+		const [mug, lamp, cup] = await currency.convertProducts(
+			[
+				{ currency: "USD", price: 12.5 },
+				{ currency: "XYZ", price: 10 },
+				{ currency: "USD", price: NaN },
+			],
+			"EUR"
+		);
+
+		expect(mug.converted).toMatchObject({ amount: 11.25, currency: "EUR" });
+		expect(lamp).toEqual({ currency: "XYZ", price: 10 });
+		expect(cup).not.toHaveProperty("converted");
+	});
+
+	it("converts tracked prices at the rate of their day", async () => {
+		const [kettle, lamp] = await currency.convertTrackedProducts(
+			[
+				{
+					currency: "USD",
+					prices: [
+						{
+							amount: 1000,
+							createdAt: new Date("2025-06-02"),
+							currency: "USD",
+						},
+						{
+							amount: 1000,
+							createdAt: new Date("2025-07-02"),
+							currency: "USD",
+						},
+					],
+					target_price: null,
+				},
+				{ currency: "XYZ", target_price: 500 },
+			],
+			"EUR"
+		);
+
+		expect(kettle).toMatchObject({
+			converted_target_price: null,
+			prices: [
+				{ converted: { amount: 800, rate_date: "2025-06-01" } },
+				{ converted: { amount: 900, rate_date: "2025-07-01" } },
+			],
+		});
+		expect(lamp).toEqual({ currency: "XYZ", target_price: 500 });
+	});
+});
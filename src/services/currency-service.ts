@@ -0,0 +1,228 @@
+import {
+	createExchangeRateProvider,
+	DailyRates,
+	ExchangeRateProvider,
+	toDay,
+} from "../lib/exchange-rates.js";
+import { prisma } from "../lib/prisma.js";
+
+export interface ConvertedAmount {
+	amount: number;
+	currency: string;
+	rate: number;
+	rate_date: string;
+}
+
+export class CurrencyService {
+	private readonly cache = new Map<string, Promise<DailyRates>>();
+
+	constructor(
+		private readonly provider: ExchangeRateProvider = createExchangeRateProvider()
+	) {}
+
+	/**
+	 * Converts an amount between currencies using the rates of the given
+	 * day. Works the same for major units and cents.
+	 */
+	async convert(
+		amount: number,
+		from: string,
+		to: string,
+		date: Date = new Date()
+	): Promise<ConvertedAmount> {
+		const rates = await this.getRates(date);
+		const rate = crossRate(rates, from.toUpperCase(), to.toUpperCase());
+		return {
+			amount: amount * rate,
+			currency: to.toUpperCase(),
+			rate,
+			rate_date: rates.day,
+		};
+	}
+
+	/**
+	 * Same as `convert`, rounded to whole cents.
+	 */
+	async convertCents(
+		amount: number,
+		from: string,
+		to: string,
+		date?: Date
+	): Promise<ConvertedAmount> {
+		const result = await this.convert(amount, from, to, date);
+		return { ...result, amount: Math.round(result.amount) };
+	}
+
+	/**
+	 * Adds a `converted` field to every item whose currency and price are
+	 * known. Items that can't be converted are returned unchanged.
+	 */
+	async convertProducts<T extends { currency: string; price: number }>(
+		items: T[],
+		target: string
+	): Promise<Array<{ converted?: ConvertedAmount } & T>> {
+		const converted = [];
+		for (const item of items) {
+			if (!item.currency || !Number.isFinite(item.price)) {
+				converted.push(item);
+				continue;
+			}
+			try {
+				const result = await this.convert(
+					item.price,
+					item.currency,
+					target
+				);
+				converted.push({
+					...item,
+					converted: { ...result, amount: roundMajor(result.amount) },
+				});
+			} catch {
+				converted.push(item);
+			}
+		}
+		return converted;
+	}
+
+	/**
+	 * Converts the products of every per-platform search result.
+	 */
+	async convertSearchResults<
+		T extends { data?: Array<{ currency: string; price: number }> },
+	>(results: T[], target: string) {
+		const converted = [];
+		for (const result of results) {
+			converted.push(
+				result.data
+					? {
+							...result,
+							data: await this.convertProducts(
+								result.data,
+								target
+							),
+						}
+					: result
+			);
+		}
+		return converted;
+	}
+
+	/**
+	 * Adds converted amounts (in cents) to tracked products: the target price
+	 * at today's rate and every stored price at the rate of the day it was
+	 * recorded. Products that can't be converted are returned unchanged.
+	 */
+	async convertTrackedProducts<
+		T extends {
+			currency: string;
+			prices?: Array<{
+				amount: number;
+				createdAt: Date;
+				currency: string;
+			}>;
+			target_price: null | number;
+		},
+	>(products: T[], target: string) {
+		const converted = [];
+		for (const product of products) {
+			try {
+				const target_price =
+					product.target_price === null
+						? null
+						: await this.convertCents(
+								product.target_price,
+								product.currency,
+								target
+							);
+				const prices = product.prices
+					? await Promise.all(
+							product.prices.map(async (price) => ({
+								...price,
+								converted: await this.convertCents(
+									price.amount,
+									price.currency,
+									target,
+									price.createdAt
+								),
+							}))
+						)
+					: undefined;
+
+				converted.push({
+					...product,
+					converted_target_price: target_price,
+					...(prices ? { prices } : {}),
+				});
+			} catch {
+				converted.push(product);
+			}
+		}
+		return converted;
+	}
+
+	/**
+	 * Returns the rates for a day, reading them from the `ExchangeRate` table
+	 * first and storing whatever the provider returns, so a historical price
+	 * is always converted with the same rate.
+	 */
+	async getRates(date: Date = new Date()): Promise<DailyRates> {
+		const day = toDay(date);
+		let rates = this.cache.get(day);
+		if (!rates) {
+			rates = this.loadRates(day);
+			this.cache.set(day, rates);
+			rates.catch(() => this.cache.delete(day));
+		}
+		return await rates;
+	}
+
+	private async loadRates(day: string): Promise<DailyRates> {
+		const stored = await prisma.exchangeRate.findMany({ where: { day } });
+
+		if (stored.length > 0) {
+			return {
+				base: stored[0].base,
+				day: stored[0].source_day,
+				rates: Object.fromEntries(
+					stored.map((row: { currency: string; rate: number }) => [
+						row.currency,
+						row.rate,
+					])
+				),
+			};
+		}
+
+		const rates = await this.provider.getRates(day);
+		await prisma.exchangeRate.createMany({
+			data: Object.entries(rates.rates).map(([currency, rate]) => ({
+				base: rates.base,
+				currency,
+				day,
+				rate,
+				source_day: rates.day,
+			})),
+			skipDuplicates: true,
+		});
+		return rates;
+	}
+}
+
+/**
+ * The rate from one currency to another in a table of rates against a
+ * common base.
+ */
+export function crossRate(rates: DailyRates, from: string, to: string) {
+	const fromRate = rates.rates[from];
+	const toRate = rates.rates[to];
+	if (fromRate === undefined) {
+		throw new Error(`No exchange rate for ${from} on ${rates.day}`);
+	}
+	if (toRate === undefined) {
+		throw new Error(`No exchange rate for ${to} on ${rates.day}`);
+	}
+	return toRate / fromRate;
+}
+
+function roundMajor(amount: number) {
+	return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { BrightDataClient } from "../lib/brightdata-client.js";
+import { prisma } from "../lib/prisma.js";
+import { ServiceHealth } from "../lib/resilience.js";
+import {
+	DatasetJob,
+	DatasetJobService,
+	recordsForUrl,
+} from "./dataset-job-service.js";
+
+vi.mock("../lib/prisma.js", () => ({
+	prisma: {
+		datasetJob: {
+			findUnique: vi.fn(),
+			update: vi.fn(async ({ data, where }) => ({
+				...row(),
+				...data,
+				id: where.id,
+			})),
+		},
+	},
+}));
+
+const row = (overrides: Partial<{ status: string; urls: string[] }> = {}) => ({
+	completedAt: null,
+	createdAt: new Date("2025-07-01T12:00:00Z"),
+	dataset_id: "gd_l7q7dkf244hwjntr0",
+	error: null,
+	id: "job-1",
+	platform: "amazon",
+	result: null,
+	snapshot_id: "s_abc123",
+	status: "running",
+	updatedAt: new Date("2025-07-01T12:00:00Z"),
+	urls: ["https://www.amazon.com/dp/B09XS7JWHH"],
+	...overrides,
+});
+
+const job = (result: unknown, urls: string[]) =>
+	({ ...row({ status: "ready", urls }), result }) as DatasetJob;
+
+describe("recordsForUrl", () => {
+	const mug = "https://shop.example/mug";
+	const lamp = "https://shop.example/lamp";
+
+	it("matches records by the input URL Bright Data echoes back", () => {
+		const records = [
+			{ input: { url: mug }, title: "Mug" },
+			{ input: { url: lamp }, title: "Lamp" },
+			{ title: "Mug, second seller", url: mug },
+		];
+
+		expect(recordsForUrl(job(records, [mug, lamp]), mug)).toEqual([
+			records[0],
+			records[2],
+		]);
+	});
+
+	it("returns every record of a single-URL job", () => {
+		const records = [{ title: "Mug" }, { title: "Mug, refurbished" }];
+
+		expect(recordsForUrl(job(records, [mug]), mug)).toEqual(records);
+	});
+
+	it("returns nothing before the snapshot is stored", () => {
+		expect(recordsForUrl(job(null, [mug, lamp]), mug)).toEqual([]);
+	});
+});
+
+describe("DatasetJobService.getJob", () => {
+	const findUnique = vi.mocked(prisma.datasetJob.findUnique);
+	let status: string;
+	let service: DatasetJobService;
+	const getSnapshot = vi.fn(async () => [{ title: "Headphones" }]);
+
+	beforeEach(() => {
+		getSnapshot.mockClear();
+		findUnique.mockResolvedValue(row() as never);
+		service = new DatasetJobService(
+			{
+				getSnapshot,
+				getSnapshotProgress: async () => ({ status }),
+			} as unknown as BrightDataClient,
+			new ServiceHealth({ retry: { retries: 0 } })
+		);
+	});
+
+	it.each(["starting", "building", "running"])(
+		"keeps a %s snapshot running",
+		async (progress) => {
+			status = progress;
+
+			expect((await service.getJob("job-1")).status).toBe("running");
+			expect(getSnapshot).not.toHaveBeenCalled();
+		}
+	);
+
+	it("downloads the snapshot once it is ready", async () => {
+		status = "ready";
+
+		expect(await service.getJob("job-1")).toMatchObject({
+			result: [{ title: "Headphones" }],
+			status: "ready",
+		});
+	});
+
+	it("marks the job failed when the collection fails", async () => {
+		status = "failed";
+
+		expect(await service.getJob("job-1")).toMatchObject({
+			error: "Dataset collection failed",
+			status: "failed",
+		});
+	});
+
+	it("rejects a stored job with an unknown status", async () => {
+		findUnique.mockResolvedValue(row({ status: "queued" }) as never);
+
+		await expect(service.getJob("job-1")).rejects.toThrow(
+			'Job job-1 has an unknown status "queued"'
+		);
+	});
+});
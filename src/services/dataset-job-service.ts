@@ -0,0 +1,248 @@
+import { BrightDataClient } from "../lib/brightdata-client.js";
+import { prisma } from "../lib/prisma.js";
+import { ServiceHealth } from "../lib/resilience.js";
+import { sleep } from "../lib/task-executor.js";
+
+export interface DatasetJob {
+	completedAt: Date | null;
+	createdAt: Date;
+	dataset_id: string;
+	error: null | string;
+	id: string;
+	platform: string;
+	result: unknown;
+	snapshot_id: string;
+	status: JobStatus;
+	updatedAt: Date;
+	urls: string[];
+}
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export interface WaitOptions {
+	onProgress?: (progress: { progress: number; total?: number }) => unknown;
+	signal?: AbortSignal;
+	timeoutMs?: number;
+}
+
+interface JobOptions {
+	pollIntervalMs: number;
+	waitMs: number;
+}
+
+const JOB_STATUSES = ["failed", "ready", "running"] as const;
+
+/**
+ * Dataset collections as persisted jobs. Triggering returns as soon as
+ * Bright Data hands back a `snapshot_id`; callers then poll the job, wait
+ * for it with a deadline, or come back later with the job id, even after a
+ * restart.
+ */
+export class DatasetJobService {
+	private readonly options: JobOptions;
+
+	constructor(
+		private readonly brightData: BrightDataClient,
+		private readonly health = new ServiceHealth(),
+		options: Partial<JobOptions> = {}
+	) {
+		this.options = {
+			pollIntervalMs:
+				options.pollIntervalMs ??
+				Number(process.env.DATASET_POLL_INTERVAL_MS || 2000),
+			waitMs:
+				options.waitMs ?? Number(process.env.DATASET_WAIT_MS || 60000),
+		};
+	}
+
+	/**
+	 * Triggers one snapshot for all `urls` of a platform and stores it as a
+	 * running job.
+	 */
+	async createJob(
+		platform: string,
+		datasetId: string,
+		urls: string[],
+		options: { signal?: AbortSignal } = {}
+	): Promise<DatasetJob> {
+		const trigger_response = await this.health.call(
+			platform,
+			() =>
+				this.brightData.triggerDataset(
+					datasetId,
+					urls.map((url) => ({ url })),
+					options
+				),
+			options
+		);
+
+		if (!trigger_response.snapshot_id) {
+			throw new Error("Failed to trigger dataset collection");
+		}
+
+		return toJob(
+			await prisma.datasetJob.create({
+				data: {
+					dataset_id: datasetId,
+					platform,
+					snapshot_id: trigger_response.snapshot_id,
+					status: "running",
+					urls,
+				},
+			})
+		);
+	}
+
+	/**
+	 * Returns the job, asking Bright Data for its progress first if it is
+	 * still running. A ready job's snapshot is downloaded and stored once.
+	 */
+	async getJob(
+		jobId: string,
+		options: { signal?: AbortSignal } = {}
+	): Promise<DatasetJob> {
+		const row = await prisma.datasetJob.findUnique({
+			where: { id: jobId },
+		});
+
+		if (!row) {
+			throw new Error("Job not found");
+		}
+
+		const job = toJob(row);
+
+		if (job.status !== "running") {
+			return job;
+		}
+
+		const progress = await this.health.call(
+			job.platform,
+			() => this.brightData.getSnapshotProgress(job.snapshot_id, options),
+			options
+		);
+
+		if (progress.status === "failed") {
+			return toJob(
+				await prisma.datasetJob.update({
+					data: {
+						completedAt: new Date(),
+						error: "Dataset collection failed",
+						status: "failed",
+					},
+					where: { id: job.id },
+				})
+			);
+		}
+
+		// Bright Data also reports "starting" and "building" before "ready"
+		if (progress.status !== "ready") {
+			return job;
+		}
+
+		const snapshot = await this.health.call(
+			job.platform,
+			() => this.brightData.getSnapshot(job.snapshot_id, options),
+			options
+		);
+
+		return toJob(
+			await prisma.datasetJob.update({
+				data: {
+					completedAt: new Date(),
+					result: snapshot as object,
+					status: "ready",
+				},
+				where: { id: job.id },
+			})
+		);
+	}
+
+	/**
+	 * The snapshot records of a finished job. Throws while the job is still
+	 * running or if it failed.
+	 */
+	async getJobResult(jobId: string, options: { signal?: AbortSignal } = {}) {
+		const job = await this.getJob(jobId, options);
+
+		if (job.status === "running") {
+			throw new Error(
+				`Job ${job.id} is still running; check get_job_status later`
+			);
+		}
+		if (job.status === "failed") {
+			throw new Error(job.error || "Dataset collection failed");
+		}
+
+		return job;
+	}
+
+	/**
+	 * Polls the job until it finishes or `timeoutMs` (default
+	 * `DATASET_WAIT_MS`) passes, and returns it either way so the caller can
+	 * hand out the job id instead of failing.
+	 */
+	async waitForJob(
+		jobId: string,
+		options: WaitOptions = {}
+	): Promise<DatasetJob> {
+		const timeoutMs = options.timeoutMs ?? this.options.waitMs;
+		const total = Math.max(
+			1,
+			Math.ceil(timeoutMs / this.options.pollIntervalMs)
+		);
+		const deadline = Date.now() + timeoutMs;
+
+		let job = await this.getJob(jobId, options);
+		for (let poll = 1; job.status === "running"; poll++) {
+			await options.onProgress?.({ progress: poll, total });
+			if (Date.now() + this.options.pollIntervalMs > deadline) break;
+			await sleep(this.options.pollIntervalMs, options.signal);
+			job = await this.getJob(jobId, options);
+		}
+		return job;
+	}
+}
+
+/**
+ * Status fields of a job without the (possibly large) snapshot.
+ */
+export function describeJob(job: DatasetJob) {
+	return {
+		completed_at: job.completedAt,
+		created_at: job.createdAt,
+		dataset_id: job.dataset_id,
+		error: job.error,
+		id: job.id,
+		platform: job.platform,
+		records: Array.isArray(job.result) ? job.result.length : null,
+		snapshot_id: job.snapshot_id,
+		status: job.status,
+		urls: job.urls,
+	};
+}
+
+/**
+ * The snapshot records collected for one input URL. Bright Data echoes the
+ * input in `input.url`; single-URL jobs return every record.
+ */
+export function recordsForUrl(job: DatasetJob, url: string) {
+	const records = Array.isArray(job.result) ? job.result : [];
+	if (job.urls.length === 1) return records;
+	return records.filter((record: Record<string, unknown>) => {
+		const input = record?.input as { url?: string } | undefined;
+		return (input?.url ?? record?.url) === url;
+	});
+}
+
+/**
+ * A stored job row with its `status` checked, since the column is a plain
+ * string.
+ */
+function toJob(
+	row: { status: string } & Omit<DatasetJob, "status">
+): DatasetJob {
+	if (!(JOB_STATUSES as readonly string[]).includes(row.status)) {
+		throw new Error(`Job ${row.id} has an unknown status "${row.status}"`);
+	}
+	return { ...row, status: row.status as JobStatus };
+}
@@ -0,0 +1,229 @@
+import { describe, expect, it } from "vitest";
+
+import { normalizeSnapshot } from "./dataset-normalizer.js";
+
+describe("normalizeSnapshot", () => {
+	it("maps Amazon records", () => {
+		expect(
+			normalizeSnapshot(
+				[
+					{
+						asin: "B09XS7JWHH",
+						availability: "In Stock",
+						brand: "Sony",
+						categories: ["Electronics", "Headphones"],
+						currency: "USD",
+						final_price: 329.99,
+						model_number: "WH1000XM5/B",
+						rating: 4.5,
+						reviews_count: 12045,
+						title: "Sony WH-1000XM5",
+						upc: "027242923232",
+						url: "https://www.amazon.com/dp/B09XS7JWHH",
+						variations: [{ name: "Black", price: 329.99 }],
+					},
+				],
+				"amazon",
+				"https://www.amazon.com/dp/B09XS7JWHH"
+			)
+		).toMatchObject({
+			brand: "Sony",
+			category: "Headphones",
+			currency: "USD",
+			gtin: "027242923232",
+			mpn: "WH1000XM5/B",
+			name: "Sony WH-1000XM5",
+			platform: "amazon",
+			price: 329.99,
+			rating: 4.5,
+			reviews: 12045,
+			sku: "B09XS7JWHH",
+			stock: { status: "in_stock" },
+			variants: [{ name: "Black", price: 329.99 }],
+		});
+	});
+
+	it("maps Best Buy records in the storefront's currency", () => {
+		expect(
+			normalizeSnapshot(
+				{
+					final_price: "$449.99",
+					model: "WH1000XM5/B",
+					sku: "6505727",
+					title: "Sony WH-1000XM5",
+				},
+				"bestbuy",
+				"https://www.bestbuy.ca/en-ca/product/16142328"
+			)
+		).toMatchObject({
+			currency: "CAD",
+			mpn: "WH1000XM5/B",
+			price: 449.99,
+			sku: "6505727",
+		});
+	});
+
+	it("maps eBay records without taking the seller's rating or the condition", () => {
+		const product = normalizeSnapshot(
+			[
+				{
+					condition: "Pre-owned",
+					price: "£180.00",
+					product_id: "256123456789",
+					product_ratings: 85,
+					seller_name: "audio_outlet",
+					seller_rating: "99.6%",
+					title: "Sony WH-1000XM5",
+				},
+			],
+			"ebay",
+			"https://www.ebay.co.uk/itm/256123456789"
+		);
+
+		expect(product).toMatchObject({
+			currency: "GBP",
+			price: 180,
+			reviews: 85,
+			seller: "audio_outlet",
+			sku: "256123456789",
+		});
+		expect(product).not.toHaveProperty("rating");
+		expect(product).not.toHaveProperty("availability");
+	});
+
+	it("maps Etsy records", () => {
+		expect(
+			normalizeSnapshot(
+				[
+					{
+						final_price: 24,
+						listing_id: 1234567890,
+						reviews_count_item: 312,
+						seller_shop_name: "ClayStudio",
+						title: "Handmade mug",
+					},
+				],
+				"etsy",
+				"https://www.etsy.com/listing/1234567890"
+			)
+		).toMatchObject({
+			currency: "USD",
+			reviews: 312,
+			seller: "ClayStudio",
+			sku: "1234567890",
+		});
+	});
+
+	it("maps Home Depot records", () => {
+		expect(
+			normalizeSnapshot(
+				[
+					{
+						availability: "Out of Stock",
+						final_price: 99,
+						product_name: "Cordless drill",
+						sku: "318783386",
+					},
+				],
+				"homedepot",
+				"https://www.homedepot.com/p/318783386"
+			)
+		).toMatchObject({
+			name: "Cordless drill",
+			sku: "318783386",
+			stock: { status: "out_of_stock" },
+		});
+	});
+
+	it("maps Walmart records unavailable for delivery and pickup as out of stock", () => {
+		expect(
+			normalizeSnapshot(
+				[
+					{
+						available_for_delivery: false,
+						available_for_pickup: false,
+						final_price: 279,
+						gtin: "00027242923232",
+						product_name: "Sony WH-1000XM5",
+						review_count: 2031,
+					},
+				],
+				"walmart",
+				"https://www.walmart.com/ip/123456789"
+			)
+		).toMatchObject({
+			availability: "Out of stock",
+			gtin: "00027242923232",
+			reviews: 2031,
+			stock: { status: "out_of_stock" },
+		});
+	});
+
+	it("maps Zara records with their sizes", () => {
+		expect(
+			normalizeSnapshot(
+				[
+					{
+						final_price: "29,95 EUR",
+						name: "Linen dress",
+						sizes: [{ available: false, size: "S" }, { size: "M" }],
+					},
+				],
+				"zara",
+				"https://www.zara.com/fr/fr/robe-p01234567.html"
+			)
+		).toMatchObject({
+			currency: "EUR",
+			name: "Linen dress",
+			price: 29.95,
+			variants: [{ available: false, name: "S" }, { name: "M" }],
+		});
+	});
+
+	it("drops invalid optional fields instead of the record", () => {
+		const product = normalizeSnapshot(
+			[
+				{
+					final_price: 19.99,
+					rating: "99.6%",
+					reviews_count: 12.5,
+					title: "Kettle",
+				},
+			],
+			"amazon",
+			"https://www.amazon.com/dp/B000000001"
+		);
+
+		expect(product).toMatchObject({ name: "Kettle", price: 19.99 });
+		expect(product).not.toHaveProperty("rating");
+		expect(product).not.toHaveProperty("reviews");
+	});
+
+	it("skips error records and records without a price", () => {
+		const url = "https://www.amazon.com/dp/B000000001";
+
+		expect(
+			normalizeSnapshot(
+				[
+					{ error: "Page not found" },
+					{ title: "No price" },
+					{ final_price: 5, title: "Mug" },
+				],
+				"amazon",
+				url
+			).name
+		).toBe("Mug");
+		expect(() =>
+			normalizeSnapshot(
+				[{ error: "Page not found" }, { rating: 9, title: "No price" }],
+				"amazon",
+				url
+			)
+		).toThrow(
+			"Could not normalize dataset record: Page not found | price: Expected number, received nan"
+		);
+		expect(() => normalizeSnapshot([], "amazon", url)).toThrow(
+			"Dataset snapshot returned no records"
+		);
+	});
+});
@@ -0,0 +1,178 @@
+import { z } from "zod";
+
+import { normalizeAvailability, STOCK_STATUSES } from "../lib/availability.js";
+import { offerTerms } from "../lib/landed-cost.js";
+import { platformRegistry } from "../lib/platform-registry.js";
+import { BrightDataError } from "../lib/resilience.js";
+import { DatasetRecord, Platform } from "../platforms/adapter.js";
+import { priceOf, text } from "../platforms/helpers.js";
+import { ProductDetail } from "./scraper-service.js";
+
+const discountSchema = z.object({
+	amount: z.number().positive().optional(),
+	percent: z.number().positive().max(100).optional(),
+	price: z.number().positive().optional(),
+	text: z.string(),
+});
+
+const REQUIRED_FIELDS = ["currency", "name", "platform", "price", "url"];
+
+/**
+ * The canonical product returned by every lookup, whether it came from a
+ * scraped page or a dataset snapshot.
+ */
+export const productDetailSchema = z.object({
+	availability: z.string().optional(),
+	brand: z.string().optional(),
+	category: z.string().optional(),
+	coupon: discountSchema.optional(),
+	currency: z.string().length(3),
+	deliveryEstimate: z.string().optional(),
+	description: z.string().optional(),
+	gtin: z.string().optional(),
+	image: z.string().optional(),
+	memberPrice: z.number().finite().positive().optional(),
+	mpn: z.string().optional(),
+	name: z.string().min(1),
+	platform: z.string(),
+	price: z.number().finite().nonnegative(),
+	priceMax: z.number().finite().nonnegative().optional(),
+	rating: z.number().min(0).max(5).optional(),
+	reviews: z.number().int().nonnegative().optional(),
+	seller: z.string().optional(),
+	shippingCost: z.number().finite().nonnegative().optional(),
+	shippingInfo: z.string().optional(),
+	sku: z.string().optional(),
+	specifications: z.record(z.string()).optional(),
+	stock: z
+		.object({
+			quantity: z.number().int().nonnegative().optional(),
+			status: z.enum(STOCK_STATUSES),
+		})
+		.optional(),
+	subscribeSave: discountSchema.optional(),
+	url: z.string(),
+	variants: z
+		.array(
+			z.object({
+				available: z.boolean().optional(),
+				name: z.string(),
+				price: z.number().optional(),
+			})
+		)
+		.optional(),
+});
+
+/**
+ * Applies the adapter's dataset mapper and fills the fields every dataset shares:
+ * price, currency (falling back to the storefront's) and URL. Empty values
+ * are dropped so they don't trip validation.
+ */
+export function normalizeRecord(
+	record: DatasetRecord,
+	platform: Platform,
+	url: string
+): Partial<ProductDetail> {
+	const mapped =
+		platformRegistry.get(platform)?.mapDatasetRecord?.(record) ?? {};
+	const storefrontCurrency = platformRegistry.match(url)?.currency;
+	const price =
+		priceOf(record.final_price, storefrontCurrency) ??
+		priceOf(record.price, storefrontCurrency) ??
+		priceOf(record.initial_price, storefrontCurrency);
+
+	const currency = (
+		text(record.currency) ??
+		price?.currency ??
+		storefrontCurrency ??
+		"USD"
+	).toUpperCase();
+
+	const product: Partial<ProductDetail> = {
+		...mapped,
+		currency,
+		name: mapped.name ?? text(record.name) ?? "",
+		platform,
+		price: price?.amount ?? NaN,
+		priceMax: price?.max,
+		stock: mapped.availability
+			? normalizeAvailability(mapped.availability)
+			: undefined,
+		...offerTerms({ shippingInfo: mapped.shippingInfo }, currency),
+		url: text(record.url) ?? url,
+	};
+
+	return Object.fromEntries(
+		Object.entries(product).filter(
+			([, value]) =>
+				value !== undefined &&
+				value !== "" &&
+				!(Array.isArray(value) && value.length === 0) &&
+				!(
+					typeof value === "object" &&
+					value !== null &&
+					!Array.isArray(value) &&
+					Object.keys(value).length === 0
+				)
+		)
+	) as Partial<ProductDetail>;
+}
+
+/**
+ * Maps the snapshot records for one URL into the canonical product. Invalid
+ * optional fields are dropped; error records and records missing a valid
+ * name, price or currency are skipped, and if none is left, a `parse` error
+ * explains why.
+ */
+export function normalizeSnapshot(
+	records: unknown,
+	platform: Platform,
+	url: string
+): ProductDetail {
+	const list = (Array.isArray(records) ? records : [records]).filter(
+		(record): record is DatasetRecord =>
+			typeof record === "object" && record !== null
+	);
+	const problems: string[] = [];
+
+	for (const record of list) {
+		if (record.error || record.error_code) {
+			problems.push(String(record.error ?? record.error_code));
+			continue;
+		}
+		const result = parseLeniently(normalizeRecord(record, platform, url));
+		if (result.success) {
+			return result.data as ProductDetail;
+		}
+		problems.push(
+			result.error.issues
+				.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+				.join("; ")
+		);
+	}
+
+	throw new BrightDataError(
+		"parse",
+		problems.length > 0
+			? `Could not normalize dataset record: ${problems.join(" | ")}`
+			: "Dataset snapshot returned no records"
+	);
+}
+
+/**
+ * Validates the product, retrying once without the optional fields that
+ * failed so a bad rating or review count doesn't cost the whole record.
+ */
+function parseLeniently(product: Partial<ProductDetail>) {
+	const result = productDetailSchema.safeParse(product);
+	if (result.success) return result;
+
+	const invalid = new Set(result.error.issues.map((issue) => issue.path[0]));
+	if (REQUIRED_FIELDS.some((field) => invalid.has(field))) return result;
+
+	return productDetailSchema.safeParse(
+		Object.fromEntries(
+			Object.entries(product).filter(([key]) => !invalid.has(key))
+		)
+	);
+}
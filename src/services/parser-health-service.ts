@@ -0,0 +1,166 @@
+import { average, ParseKind, ParseReport } from "../lib/parser-health.js";
+import { prisma } from "../lib/prisma.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface HealthOptions {
+	minSamples: number;
+	threshold: number;
+}
+
+interface Sample {
+	completeness: number;
+	createdAt: Date;
+	fields: unknown;
+	kind: string;
+	platform: string;
+	results: number;
+}
+
+/**
+ * Keeps the field-completeness report of every parse and summarises them
+ * per platform, so a retailer's markup change shows up as a drop in
+ * completeness instead of as `NaN` prices in tool results.
+ */
+export class ParserHealthService {
+	private readonly options: HealthOptions;
+
+	constructor(options: Partial<HealthOptions> = {}) {
+		this.options = {
+			minSamples:
+				options.minSamples ??
+				Number(process.env.PARSER_DRIFT_MIN_SAMPLES || 5),
+			threshold:
+				options.threshold ??
+				Number(process.env.PARSER_DRIFT_THRESHOLD || 0.8),
+		};
+	}
+
+	/**
+	 * Stores one report. A failed write is logged so parsing never fails
+	 * because of it.
+	 */
+	async record(report: ParseReport) {
+		try {
+			await prisma.parserHealthSample.create({
+				data: {
+					completeness: report.completeness,
+					fields: report.fields,
+					kind: report.kind,
+					platform: report.platform,
+					results: report.results,
+				},
+			});
+		} catch (e: unknown) {
+			console.error(
+				"Could not record parser health:",
+				(e as Error).message
+			);
+		}
+	}
+
+	/**
+	 * Completeness and per-field fill rates of the last `hours`, per
+	 * platform and page kind, next to those of the window before it. A
+	 * platform is drifted when it has at least `minSamples` parses in the
+	 * window and their average completeness is below the threshold.
+	 */
+	async report(options: { hours?: number; platform?: string } = {}) {
+		const hours = options.hours ?? 24;
+		const since = new Date(Date.now() - hours * HOUR_MS);
+		const baselineSince = new Date(since.getTime() - hours * HOUR_MS);
+
+		const samples: Sample[] = await prisma.parserHealthSample.findMany({
+			orderBy: { createdAt: "asc" },
+			where: {
+				createdAt: { gte: baselineSince },
+				...(options.platform ? { platform: options.platform } : {}),
+			},
+		});
+
+		const groups = new Map<
+			string,
+			{ baseline: Sample[]; recent: Sample[] }
+		>();
+		for (const sample of samples) {
+			const key = `${sample.platform}/${sample.kind}`;
+			const group = groups.get(key) ?? { baseline: [], recent: [] };
+			(sample.createdAt >= since ? group.recent : group.baseline).push(
+				sample
+			);
+			groups.set(key, group);
+		}
+
+		const platforms = [...groups.entries()]
+			.filter(([, group]) => group.recent.length > 0)
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([, { baseline, recent }]) => {
+				const completeness = average(
+					recent.map((sample) => sample.completeness)
+				);
+				const baselineCompleteness = average(
+					baseline.map((sample) => sample.completeness)
+				);
+				return {
+					baseline_completeness:
+						baseline.length > 0
+							? round(baselineCompleteness)
+							: null,
+					completeness: round(completeness),
+					drifted:
+						recent.length >= this.options.minSamples &&
+						completeness < this.options.threshold,
+					fields: fieldRates(recent),
+					kind: recent[0].kind as ParseKind,
+					last_parsed_at: recent[recent.length - 1].createdAt,
+					platform: recent[0].platform,
+					samples: recent.length,
+					success_rate: round(
+						recent.filter(isUsable).length / recent.length
+					),
+				};
+			});
+
+		return {
+			drifted: platforms
+				.filter((entry) => entry.drifted)
+				.map((entry) => `${entry.platform}/${entry.kind}`),
+			min_samples: this.options.minSamples,
+			platforms,
+			threshold: this.options.threshold,
+			window_hours: hours,
+		};
+	}
+}
+
+/**
+ * Average fill rate of each field over the samples.
+ */
+function fieldRates(samples: Sample[]) {
+	const totals: Record<string, number[]> = {};
+	for (const sample of samples) {
+		for (const [field, rate] of Object.entries(
+			sample.fields as Record<string, number>
+		)) {
+			(totals[field] ??= []).push(rate);
+		}
+	}
+	return Object.fromEntries(
+		Object.entries(totals)
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([field, rates]) => [field, round(average(rates))])
+	);
+}
+
+/**
+ * A parse that gave at least one product, every one of them with a name
+ * and a price.
+ */
+function isUsable(sample: Sample) {
+	const fields = sample.fields as Record<string, number>;
+	return sample.results > 0 && fields.name === 1 && fields.price === 1;
+}
+
+function round(value: number) {
+	return Math.round(value * 1000) / 1000;
+}
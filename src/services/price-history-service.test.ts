@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { computePriceStats } from "./price-history-service.js";
+
+vi.mock("../lib/prisma.js", () => ({ prisma: {} }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2025-07-02T12:00:00Z");
+
+const price = (amount: number, daysAgo: number, currency = "USD") => ({
+	amount,
+	createdAt: new Date(now.getTime() - daysAgo * DAY_MS),
+	currency,
+});
+
+describe("computePriceStats", () => {
+	it("summarizes prices and the change over each window", () => {
+		const stats = computePriceStats(
+			[
+				price(10000, 100),
+				price(8000, 40),
+				price(12000, 10),
+				price(9000, 0),
+			],
+			{ now }
+		);
+
+		expect(stats).toMatchObject({
+			all_time_low: { amount: 8000 },
+			average: 9750,
+			change_pct: { "30d": 12.5, "7d": -25, "90d": -10 },
+			current: { amount: 9000, date: now.toISOString() },
+			data_points: 4,
+			is_all_time_low: false,
+			max: 12000,
+			min: 8000,
+			volatility_pct: 15.17,
+		});
+	});
+
+	it("has no change for windows older than the history", () => {
+		const stats = computePriceStats([price(5000, 3), price(4000, 0)], {
+			now,
+		});
+
+		expect(stats.change_pct).toEqual({
+			"30d": null,
+			"7d": null,
+			"90d": null,
+		});
+		expect(stats.is_all_time_low).toBe(true);
+	});
+
+	it("buckets the series by UTC day or week", () => {
+		const prices = [price(1000, 3), price(1200, 2.9), price(900, 0)];
+
+		expect(computePriceStats(prices, { now }).series).toEqual([
+			{
+				average: 1100,
+				close: 1200,
+				max: 1200,
+				min: 1000,
+				start: "2025-06-29",
+			},
+			{
+				average: 900,
+				close: 900,
+				max: 900,
+				min: 900,
+				start: "2025-07-02",
+			},
+		]);
+		expect(
+			computePriceStats(prices, { bucket: "weekly", now }).series
+		).toEqual([
+			{
+				average: 1100,
+				close: 1200,
+				max: 1200,
+				min: 1000,
+				start: "2025-06-23",
+			},
+			{
+				average: 900,
+				close: 900,
+				max: 900,
+				min: 900,
+				start: "2025-06-30",
+			},
+		]);
+	});
+
+	it("leaves out prices in another currency", () => {
+		const stats = computePriceStats(
+			[price(150000, 20, "JPY"), price(1100, 10), price(1000, 0)],
+			{ currency: "USD", now }
+		);
+
+		expect(stats).toMatchObject({
+			all_time_low: { amount: 1000 },
+			data_points: 2,
+			max: 1100,
+		});
+	});
+
+	it("returns only a count without valid prices", () => {
+		expect(computePriceStats([], { now })).toEqual({ data_points: 0 });
+		expect(computePriceStats([price(0, 1)], { now })).toEqual({
+			data_points: 0,
+		});
+	});
+});
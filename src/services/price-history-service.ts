@@ -0,0 +1,180 @@
+import { prisma } from "../lib/prisma.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHANGE_WINDOWS = [7, 30, 90];
+
+export type HistoryBucket = "daily" | "weekly";
+
+interface PricePoint {
+	amount: number;
+	createdAt: Date;
+	currency?: string;
+}
+
+interface SeriesPoint {
+	average: number;
+	close: number;
+	max: number;
+	min: number;
+	start: string;
+}
+
+/**
+ * Summarises the `Price` rows of tracked products so agents can reason about
+ * a price without reading every row.
+ */
+export class PriceHistoryService {
+	async getPriceHistoryStats(
+		userId: string,
+		options: { bucket?: HistoryBucket; productIds?: string[] } = {}
+	) {
+		const products = await prisma.product.findMany({
+			include: {
+				prices: {
+					orderBy: { createdAt: "asc" },
+					select: { amount: true, createdAt: true, currency: true },
+				},
+			},
+			where: {
+				User: { userId },
+				...(options.productIds?.length
+					? { id: { in: options.productIds } }
+					: {}),
+			},
+		});
+
+		return products.map(
+			(product: {
+				currency: string;
+				id: string;
+				name: string;
+				platform: string;
+				prices: PricePoint[];
+				target_price: null | number;
+				variant: null | string;
+			}) => ({
+				currency: product.currency,
+				id: product.id,
+				name: product.name,
+				platform: product.platform,
+				target_price: product.target_price,
+				variant: product.variant,
+				...computePriceStats(product.prices, {
+					bucket: options.bucket,
+					currency: product.currency,
+				}),
+			})
+		);
+	}
+}
+
+/**
+ * Computes min/max/average, the all-time low, percentage change over 7, 30
+ * and 90 days, volatility (coefficient of variation, in percent) and a
+ * bucketed series. Prices must be sorted oldest first; amounts stay in cents.
+ * With a `currency`, prices recorded in another one (before the storefront
+ * changed currency) are left out rather than mixed in.
+ */
+export function computePriceStats(
+	prices: PricePoint[],
+	options: { bucket?: HistoryBucket; currency?: string; now?: Date } = {}
+) {
+	const { bucket = "daily", currency, now = new Date() } = options;
+	const valid = prices.filter(
+		(price) =>
+			price.amount > 0 &&
+			(!currency || !price.currency || price.currency === currency)
+	);
+	if (valid.length === 0) {
+		return { data_points: 0 };
+	}
+
+	const amounts = valid.map((price) => price.amount);
+	const average =
+		amounts.reduce((sum, amount) => sum + amount, 0) / amounts.length;
+	const variance =
+		amounts.reduce((sum, amount) => sum + (amount - average) ** 2, 0) /
+		amounts.length;
+
+	const low = valid.reduce((lowest, price) =>
+		price.amount < lowest.amount ? price : lowest
+	);
+	const current = valid[valid.length - 1];
+
+	const change_pct: Record<string, null | number> = {};
+	for (const days of CHANGE_WINDOWS) {
+		const cutoff = now.getTime() - days * DAY_MS;
+		const reference = [...valid]
+			.reverse()
+			.find((price) => price.createdAt.getTime() <= cutoff);
+		change_pct[`${days}d`] = reference
+			? round(
+					((current.amount - reference.amount) / reference.amount) *
+						100
+				)
+			: null;
+	}
+
+	return {
+		all_time_low: {
+			amount: low.amount,
+			date: low.createdAt.toISOString(),
+		},
+		average: Math.round(average),
+		change_pct,
+		current: {
+			amount: current.amount,
+			date: current.createdAt.toISOString(),
+		},
+		data_points: valid.length,
+		is_all_time_low: current.amount <= low.amount,
+		max: Math.max(...amounts),
+		min: Math.min(...amounts),
+		series: bucketSeries(valid, bucket),
+		volatility_pct: round((Math.sqrt(variance) / average) * 100),
+	};
+}
+
+function bucketSeries(prices: PricePoint[], bucket: HistoryBucket) {
+	const buckets = new Map<string, number[]>();
+
+	for (const price of prices) {
+		const start = bucketStart(price.createdAt, bucket);
+		const amounts = buckets.get(start) ?? [];
+		amounts.push(price.amount);
+		buckets.set(start, amounts);
+	}
+
+	const series: SeriesPoint[] = [];
+	for (const [start, amounts] of buckets) {
+		series.push({
+			average: Math.round(
+				amounts.reduce((sum, amount) => sum + amount, 0) /
+					amounts.length
+			),
+			close: amounts[amounts.length - 1],
+			max: Math.max(...amounts),
+			min: Math.min(...amounts),
+			start,
+		});
+	}
+	return series;
+}
+
+/**
+ * UTC day, or the Monday starting the UTC week, as `YYYY-MM-DD`.
+ */
+function bucketStart(date: Date, bucket: HistoryBucket) {
+	const day = new Date(
+		Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+	);
+	if (bucket === "weekly") {
+		const offset = (day.getUTCDay() + 6) % 7;
+		day.setUTCDate(day.getUTCDate() - offset);
+	}
+	return day.toISOString().slice(0, 10);
+}
+
+function round(value: number) {
+	return Math.round(value * 100) / 100;
+}
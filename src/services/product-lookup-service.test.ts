@@ -0,0 +1,78 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { BrightDataClient } from "../lib/brightdata-client.js";
+import { platformRegistry } from "../lib/platform-registry.js";
+import { SelectorStore } from "../lib/selector-config.js";
+import { defineStorefront, priceFields } from "../platforms/helpers.js";
+import { ProductLookupService } from "./product-lookup-service.js";
+import { ScraperService } from "./scraper-service.js";
+
+vi.mock("../lib/prisma.js", () => ({ prisma: {} }));
+
+describe("ProductLookupService.getProductDetails", () => {
+	let directory: string;
+
+	beforeAll(async () => {
+		directory = await mkdtemp(path.join(tmpdir(), "selectors-"));
+		platformRegistry.register({
+			buildSearchUrl: (query) =>
+				`https://www.boutique.example/?q=${query}`,
+			id: "boutique",
+			name: "Boutique",
+			parseProduct: ($, baseUrl, currency) => ({
+				name: $("h1").text(),
+				platform: "boutique",
+				...priceFields($(".price").text(), currency),
+				url: baseUrl,
+			}),
+			storefronts: [
+				defineStorefront(
+					"boutique.example",
+					"US",
+					"USD",
+					"en-US",
+					"/us/en"
+				),
+				defineStorefront(
+					"boutique.example",
+					"MX",
+					"MXN",
+					"es-MX",
+					"/mx/es"
+				),
+			],
+		});
+	});
+
+	afterAll(async () => {
+		await rm(directory, { force: true, recursive: true });
+	});
+
+	it("scrapes a path-prefixed storefront in its own currency", async () => {
+		const lookup = new ProductLookupService(
+			{
+				request: async () =>
+					'<h1>Vestido de lino</h1><span class="price">$ 599.00</span>',
+			} as unknown as BrightDataClient,
+			new ScraperService(
+				platformRegistry,
+				undefined,
+				new SelectorStore(directory)
+			)
+		);
+
+		const { data, storefront } = await lookup.getProductDetails(
+			"https://www.boutique.example/mx/es/vestido-p0123.html"
+		);
+
+		expect(storefront).toMatchObject({ currency: "MXN", region: "MX" });
+		expect(data).toMatchObject({
+			currency: "MXN",
+			name: "Vestido de lino",
+			price: 599,
+		});
+	});
+});
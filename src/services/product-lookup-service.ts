@@ -0,0 +1,508 @@
+import { BrightDataClient } from "../lib/brightdata-client.js";
+import { platformRegistry } from "../lib/platform-registry.js";
+import {
+	BrightDataError,
+	classifyError,
+	ErrorKind,
+	ServiceHealth,
+} from "../lib/resilience.js";
+import {
+	CacheInfo,
+	CachePolicy,
+	normalizeCacheUrl,
+	normalizeQuery,
+	ResponseCache,
+} from "../lib/response-cache.js";
+import { TaskExecutor } from "../lib/task-executor.js";
+import { Platform, Storefront } from "../platforms/adapter.js";
+import {
+	DatasetJob,
+	DatasetJobService,
+	JobStatus,
+	recordsForUrl,
+	WaitOptions,
+} from "./dataset-job-service.js";
+import { normalizeSnapshot } from "./dataset-normalizer.js";
+import {
+	ProductDetail,
+	ScrapedProduct,
+	ScraperService,
+} from "./scraper-service.js";
+
+export interface BatchLookupResult {
+	data?: ProductData;
+	duration_ms: number;
+	error?: string;
+	error_kind?: ErrorKind;
+	url: string;
+}
+
+export interface LookupOptions {
+	cache?: CachePolicy;
+	/** Include the unmodified dataset records under `raw`. */
+	includeRaw?: boolean;
+	onProgress?: WaitOptions["onProgress"];
+	signal?: AbortSignal;
+	/** How long to wait for a dataset job before returning its handle. */
+	waitMs?: number;
+}
+
+export interface PlatformSearchResult {
+	cache?: CacheInfo;
+	data?: ScrapedProduct[];
+	duration_ms?: number;
+	error?: string;
+	error_kind?: ErrorKind;
+	has_more?: boolean;
+	page?: number;
+	platform: Platform;
+	region?: string;
+	search_url: string;
+}
+
+export interface ProductData {
+	cache?: CacheInfo;
+	data: null | ProductDetail;
+	/** Set for dataset lookups; `data` is null while the job is running. */
+	job_id?: string;
+	job_status?: JobStatus;
+	method: "scraping" | "structured_dataset";
+	platform: Platform;
+	raw?: unknown;
+	storefront?: Omit<Storefront, "pathPrefix">;
+	url: string;
+}
+
+export interface SearchOptions {
+	cache?: CachePolicy;
+	cursor?: string;
+	maxResults?: number;
+	page?: number;
+	/** Country code of the storefronts to search, e.g. `GB`. */
+	region?: string;
+	signal?: AbortSignal;
+}
+
+export interface SearchResponse {
+	next_cursor: null | string;
+	platforms_searched: Platform[];
+	query: string;
+	results: PlatformSearchResult[];
+}
+
+/**
+ * Where each platform's next page of results starts. Encoded into the opaque
+ * `cursor` handed back to callers.
+ */
+interface SearchCursor {
+	positions: Partial<Record<Platform, { offset: number; page: number }>>;
+	query: string;
+	region?: string;
+}
+
+/**
+ * Search and product detail lookups shared by the MCP tools and the
+ * background refresh job.
+ */
+export class ProductLookupService {
+	constructor(
+		private readonly brightData: BrightDataClient,
+		private readonly scraperService: ScraperService,
+		private readonly executor = new TaskExecutor(),
+		private readonly health = new ServiceHealth(),
+		private readonly jobs = new DatasetJobService(brightData, health),
+		private readonly cache = new ResponseCache()
+	) {}
+
+	/**
+	 * Looks up several product URLs in parallel, within the executor's
+	 * limits. URLs of platforms backed by a dataset are collected with one
+	 * snapshot per platform. Cached URLs are answered without a request.
+	 * Failures are reported per URL instead of failing the batch.
+	 */
+	async getManyProductDetails(
+		urls: string[],
+		options: LookupOptions = {}
+	): Promise<BatchLookupResult[]> {
+		const results = new Map<string, BatchLookupResult>();
+		const misses: string[] = [];
+
+		for (const url of new Set(urls)) {
+			const cached = await this.cache.peek<ProductData>(
+				productCacheKey(url, options),
+				options.cache
+			);
+			if (cached) {
+				results.set(url, {
+					data: { ...cached.value, cache: cached.cache },
+					duration_ms: 0,
+					url,
+				});
+			} else {
+				misses.push(url);
+			}
+		}
+
+		for (const result of await this.fetchManyProductDetails(
+			misses,
+			options
+		)) {
+			if (result.data && result.data.data !== null) {
+				const cache = await this.cache.store(
+					productCacheKey(result.url, options),
+					result.data,
+					options.cache
+				);
+				if (cache) result.data = { ...result.data, cache };
+			}
+			results.set(result.url, result);
+		}
+
+		return urls.map((url) => results.get(url)!);
+	}
+
+	/**
+	 * Scrapes the page, or, for platforms backed by a dataset, starts a
+	 * dataset job and waits up to `waitMs` for it. A job that is still
+	 * running comes back with `data: null` and its `job_id`, and isn't
+	 * cached.
+	 */
+	async getProductDetails(
+		url: string,
+		options: LookupOptions = {}
+	): Promise<ProductData> {
+		const { cache, value } = await this.cache.getOrLoad(
+			productCacheKey(url, options),
+			() => this.fetchProductDetails(url, options),
+			options.cache,
+			(product) => product.data !== null
+		);
+		return cache ? { ...value, cache } : value;
+	}
+
+	/**
+	 * Searches each platform and returns at most `maxResults` products per
+	 * platform. Pass the returned `next_cursor` back as `cursor` to continue
+	 * where the previous call stopped; it replaces `query`, `platforms` and
+	 * `page`.
+	 */
+	async searchProducts(
+		query: string,
+		platforms: Platform[],
+		options: SearchOptions = {}
+	): Promise<SearchResponse> {
+		const maxResults = options.maxResults ?? 10;
+		let positions: SearchCursor["positions"] = {};
+		let region = options.region;
+
+		if (options.cursor) {
+			const cursor = decodeCursor(options.cursor);
+			query = cursor.query;
+			positions = cursor.positions;
+			region = cursor.region;
+			platforms = Object.keys(positions) as Platform[];
+		} else {
+			for (const platform of platforms) {
+				positions[platform] = { offset: 0, page: options.page ?? 1 };
+			}
+		}
+
+		const next: SearchCursor["positions"] = {};
+
+		// Platforms run side by side; a slow or failing one only affects its
+		// own entry in the results.
+		const results = await Promise.all(
+			platforms.map(async (platform): Promise<PlatformSearchResult> => {
+				const { offset, page } = positions[platform]!;
+				const started = Date.now();
+				try {
+					const search_url = buildSearchUrl(
+						platform,
+						query,
+						page,
+						region
+					);
+					const { cache, value: parsedProducts } =
+						await this.cache.getOrLoad(
+							`search:${platform}:${platformRegistry.storefrontFor(platform, region)?.region}:${normalizeQuery(query)}:${page}`,
+							async () => {
+								const html = await this.health.call(
+									platform,
+									() =>
+										this.executor.run(
+											platform,
+											(signal) =>
+												this.brightData.request(
+													search_url,
+													{ signal }
+												),
+											{ signal: options.signal }
+										),
+									{ signal: options.signal }
+								);
+								return this.scraperService.parseSearchResults(
+									html,
+									platform,
+									search_url
+								);
+							},
+							options.cache
+						);
+
+					const data = parsedProducts.slice(
+						offset,
+						offset + maxResults
+					);
+					if (offset + maxResults < parsedProducts.length) {
+						next[platform] = { offset: offset + maxResults, page };
+					} else if (
+						parsedProducts.length > 0 &&
+						supportsPaging(platform)
+					) {
+						next[platform] = { offset: 0, page: page + 1 };
+					}
+
+					return {
+						cache,
+						data,
+						duration_ms: Date.now() - started,
+						has_more: next[platform] !== undefined,
+						page,
+						platform,
+						region: platformRegistry.storefrontFor(platform, region)
+							?.region,
+						search_url,
+					};
+				} catch (e: unknown) {
+					return {
+						duration_ms: Date.now() - started,
+						error:
+							e instanceof Error
+								? e.message
+								: "An unknown error occurred",
+						error_kind: classifyError(e).kind,
+						page,
+						platform,
+						search_url: "",
+					};
+				}
+			})
+		);
+
+		return {
+			next_cursor:
+				Object.keys(next).length > 0
+					? encodeCursor({ positions: next, query, region })
+					: null,
+			platforms_searched: platforms,
+			query,
+			results,
+		};
+	}
+
+	private async fetchManyProductDetails(
+		urls: string[],
+		options: LookupOptions
+	): Promise<BatchLookupResult[]> {
+		const batches = new Map<Platform, string[]>();
+		const lookups = new Map<string, Promise<BatchLookupResult>>();
+
+		for (const url of new Set(urls)) {
+			const platform = detectPlatform(url);
+			if (getDatasetId(platform)) {
+				batches.set(platform, [...(batches.get(platform) ?? []), url]);
+			} else {
+				lookups.set(
+					url,
+					timed(url, () => this.fetchProductDetails(url, options))
+				);
+			}
+		}
+
+		for (const [platform, batch] of batches) {
+			const job = this.jobs
+				.createJob(platform, getDatasetId(platform)!, batch, options)
+				.then((created) =>
+					this.jobs.waitForJob(created.id, {
+						...options,
+						timeoutMs: options.waitMs,
+					})
+				);
+			for (const url of batch) {
+				lookups.set(
+					url,
+					timed(url, async () =>
+						toDatasetProductData(await job, platform, url, options)
+					)
+				);
+			}
+		}
+
+		return await Promise.all(urls.map((url) => lookups.get(url)!));
+	}
+
+	private async fetchProductDetails(
+		url: string,
+		options: LookupOptions
+	): Promise<ProductData> {
+		const platform = detectPlatform(url);
+		const dataset_id = getDatasetId(platform);
+		const call = <T>(task: (signal: AbortSignal) => Promise<T>) =>
+			this.health.call(
+				platform,
+				() => this.executor.run(platform, task, options),
+				options
+			);
+
+		if (!dataset_id) {
+			// Fallback to general scraping
+			const parsedProduct = await call(async (signal) => {
+				const html = await this.brightData.request(url, { signal });
+				try {
+					return this.scraperService.parseProductDetails(
+						html,
+						platform,
+						url
+					);
+				} catch (e: unknown) {
+					throw new BrightDataError(
+						"parse",
+						`Could not parse product page: ${(e as Error).message}`
+					);
+				}
+			});
+
+			return {
+				data: parsedProduct,
+				method: "scraping",
+				platform,
+				storefront: storefrontOf(url),
+				url,
+			};
+		}
+
+		// Use structured dataset
+		const job = await this.jobs.createJob(
+			platform,
+			dataset_id,
+			[url],
+			options
+		);
+		return toDatasetProductData(
+			await this.jobs.waitForJob(job.id, {
+				...options,
+				timeoutMs: options.waitMs,
+			}),
+			platform,
+			url,
+			options
+		);
+	}
+}
+
+export function detectPlatform(url: string): Platform {
+	return platformRegistry.match(url)?.platform ?? "unknown";
+}
+
+export function getDatasetId(platform: Platform): string | undefined {
+	return platformRegistry.get(platform)?.datasetId;
+}
+
+/**
+ * Search URL on the platform's storefront for `region`, or its default
+ * storefront.
+ */
+function buildSearchUrl(
+	platform: Platform,
+	query: string,
+	page = 1,
+	region?: string
+) {
+	const adapter = platformRegistry.get(platform);
+	const storefront = platformRegistry.storefrontFor(platform, region);
+	if (!adapter || !storefront) {
+		throw new Error(`Search is not supported for platform: ${platform}`);
+	}
+	return adapter.buildSearchUrl(query, page, storefront);
+}
+
+function decodeCursor(cursor: string): SearchCursor {
+	try {
+		const decoded = JSON.parse(
+			Buffer.from(cursor, "base64url").toString("utf8")
+		);
+		if (typeof decoded.query !== "string" || !decoded.positions) {
+			throw new Error("missing fields");
+		}
+		return decoded;
+	} catch {
+		throw new Error("Invalid search cursor");
+	}
+}
+
+function encodeCursor(cursor: SearchCursor) {
+	return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
+function productCacheKey(url: string, options: LookupOptions) {
+	return `product:${detectPlatform(url)}:${normalizeCacheUrl(url)}${options.includeRaw ? ":raw" : ""}`;
+}
+
+function storefrontOf(url: string) {
+	const match = platformRegistry.match(url);
+	if (!match) return undefined;
+	const { currency, domain, locale, region } = match;
+	return { currency, domain, locale, region };
+}
+
+function supportsPaging(platform: Platform) {
+	return platformRegistry.get(platform)?.paginated !== false;
+}
+
+async function timed(
+	url: string,
+	lookup: () => Promise<ProductData>
+): Promise<BatchLookupResult> {
+	const started = Date.now();
+	try {
+		const data = await lookup();
+		return { data, duration_ms: Date.now() - started, url };
+	} catch (e: unknown) {
+		return {
+			duration_ms: Date.now() - started,
+			error: e instanceof Error ? e.message : "An unknown error occurred",
+			error_kind: classifyError(e).kind,
+			url,
+		};
+	}
+}
+
+/**
+ * Normalizes a finished job's records for `url` into a `ProductDetail`.
+ */
+function toDatasetProductData(
+	job: DatasetJob,
+	platform: Platform,
+	url: string,
+	options: LookupOptions
+): ProductData {
+	if (job.status === "failed") {
+		throw new Error(job.error || "Dataset collection failed");
+	}
+	const records = job.status === "ready" ? recordsForUrl(job, url) : [];
+	return {
+		data:
+			job.status === "ready"
+				? normalizeSnapshot(records, platform, url)
+				: null,
+		job_id: job.id,
+		job_status: job.status,
+		method: "structured_dataset",
+		platform,
+		...(options.includeRaw && job.status === "ready"
+			? { raw: records }
+			: {}),
+		storefront: storefrontOf(url),
+		url,
+	};
+}
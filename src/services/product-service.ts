@@ -1,15 +1,44 @@
+import { Prisma } from "@prisma/client";
+
+import {
+	isInStock,
+	StockStatus,
+	VariantAvailability,
+} from "../lib/availability.js";
 import { prisma } from "../lib/prisma.js";
+import {
+	followRedirects,
+	resolveProductUrl,
+	ShortLinkResolver,
+	storefrontUrl,
+} from "../lib/product-url.js";
+import { variantKey } from "../lib/variants.js";
+import { AlertService } from "./alert-service.js";
+
+export type TrackingType = "both" | "price" | "stock";
 
 interface ProductDetails {
+	currency?: string;
 	currentPrice?: number;
 	name?: string;
 	platform?: string;
 	target_price: null | number;
-	tracking_type: string;
+	tracking_type: TrackingType;
 	url: string | URL;
+	variant?: string;
+}
+
+interface TrackingSettings {
+	target_price?: null | number;
+	tracking_type?: TrackingType;
 }
 
 export class ProductService {
+	constructor(
+		private readonly alertService = new AlertService(),
+		private readonly resolveShortLink: ShortLinkResolver = followRedirects
+	) {}
+
 	async getAllTrackedProducts() {
 		return await prisma.product.findMany({
 			include: {
@@ -19,6 +48,12 @@ export class ProductService {
 					},
 					take: 1,
 				},
+				stock: {
+					orderBy: {
+						createdAt: "desc",
+					},
+					take: 1,
+				},
 			},
 		});
 	}
@@ -39,6 +74,13 @@ export class ProductService {
 		});
 	}
 
+	/**
+	 * Tracks a product under its canonical URL, or one of its variants
+	 * (a size, color or configuration) when `variant` names one. If the
+	 * user already tracks the same product and variant, through any URL
+	 * variant, that product is returned with `already_tracked: true`
+	 * instead of creating a duplicate.
+	 */
 	async trackProduct(userId: string, productDetails: ProductDetails) {
 		const user = await prisma.user.findUnique({
 			where: { userId },
@@ -48,25 +90,73 @@ export class ProductService {
 			throw new Error("User not found");
 		}
 
-		return await prisma.product.create({
+		const canonical = await resolveProductUrl(
+			productDetails.url.toString(),
+			this.resolveShortLink
+		);
+		const platform =
+			canonical.platform !== "unknown"
+				? canonical.platform
+				: productDetails.platform ||
+					new URL(productDetails.url).hostname;
+
+		const variant = productDetails.variant?.trim() || null;
+
+		const candidates = await prisma.product.findMany({
+			where: {
+				OR: [
+					{ url: canonical.url },
+					// Same ID on another storefront (amazon.de vs .com, or
+					// zara.com/es/es vs /fr/fr) is a different listing
+					...(canonical.externalId
+						? [
+								{
+									externalId: canonical.externalId,
+									platform,
+									url: {
+										startsWith: storefrontUrl(
+											canonical.url
+										),
+									},
+								},
+							]
+						: []),
+				],
+				userId: user.id,
+			},
+		});
+		const key = variant && variantKey(variant);
+		const existing = candidates.find(
+			(candidate: { variant: null | string }) =>
+				(candidate.variant && variantKey(candidate.variant)) === key
+		);
+
+		if (existing) {
+			return { ...existing, already_tracked: true };
+		}
+
+		const currency = productDetails.currency || "USD";
+
+		const product = await prisma.product.create({
 			data: {
+				currency,
+				externalId: canonical.externalId,
 				name: productDetails.name || "New Product",
-				platform:
-					productDetails.platform ||
-					new URL(productDetails.url).hostname,
+				platform,
 				prices: {
 					create: {
 						amount: productDetails.currentPrice || 0,
+						currency,
 					},
 				},
-				tracking_type: "price",
-				url:
-					productDetails.url instanceof URL
-						? productDetails.url.toString()
-						: productDetails.url,
+				target_price: productDetails.target_price,
+				tracking_type: productDetails.tracking_type,
+				url: canonical.url,
 				userId: user.id,
+				variant,
 			},
 		});
+		return { ...product, already_tracked: false };
 	}
 
 	async untrackProduct(userId: string, productId: string) {
@@ -86,20 +176,127 @@ export class ProductService {
 		});
 	}
 
-	async updateAllProducts(data: { currentPrice: number; id: string }[]) {
-		const updates = data.map((item) =>
+	/**
+	 * Records a refresh of each product: a `Price` when `currentPrice` is
+	 * given and a `StockSnapshot` when the stock status is known. A stock
+	 * status without `in_stock` sets it, and the other way round.
+	 */
+	async updateAllProducts(
+		data: {
+			currency?: string;
+			currentPrice?: number;
+			id: string;
+			in_stock?: boolean;
+			stock_quantity?: number;
+			stock_status?: StockStatus;
+			variant_stock?: VariantAvailability[];
+		}[]
+	) {
+		const previous = await prisma.product.findMany({
+			select: { id: true, in_stock: true },
+			where: { id: { in: data.map((item) => item.id) } },
+		});
+		const previousInStock = new Map<string, boolean | null>(
+			previous.map(
+				(product: { id: string; in_stock: boolean | null }) => [
+					product.id,
+					product.in_stock,
+				]
+			)
+		);
+
+		const stock = data.map((item) => {
+			const status =
+				item.stock_status ??
+				(item.in_stock === undefined
+					? undefined
+					: item.in_stock
+						? "in_stock"
+						: "out_of_stock");
+			return {
+				in_stock: item.in_stock ?? isInStock(status),
+				status: status === "unknown" ? undefined : status,
+			};
+		});
+
+		const updates = data.map((item, index) =>
 			prisma.product.update({
 				data: {
-					prices: {
-						create: {
-							amount: item.currentPrice,
-						},
-					},
+					currency: item.currency,
+					in_stock: stock[index].in_stock,
+					...(item.currentPrice !== undefined
+						? {
+								prices: {
+									create: {
+										amount: item.currentPrice,
+										currency: item.currency,
+									},
+								},
+							}
+						: {}),
+					...(stock[index].status
+						? {
+								stock: {
+									create: {
+										quantity: item.stock_quantity,
+										status: stock[index].status,
+										variants: variantsJson(
+											item.variant_stock
+										),
+									},
+								},
+							}
+						: {}),
 				},
 				where: { id: item.id },
 			})
 		);
 
-		return await prisma.$transaction(updates);
+		const results = await prisma.$transaction(updates);
+
+		for (const [index, item] of data.entries()) {
+			// Without a new price the price rules have nothing new to
+			// compare, and a product back in stock shows a price again.
+			if (item.currentPrice === undefined) continue;
+			await this.alertService.evaluatePriceUpdate(item.id, {
+				currentInStock: stock[index].in_stock,
+				previousInStock: previousInStock.get(item.id),
+			});
+		}
+
+		return results;
 	}
+
+	async updateTrackedProduct(
+		userId: string,
+		productId: string,
+		settings: TrackingSettings
+	) {
+		const user = await prisma.user.findUnique({
+			where: { userId },
+		});
+
+		if (!user) {
+			throw new Error("User not found");
+		}
+
+		return await prisma.product.update({
+			data: settings,
+			where: {
+				id: productId,
+				userId: user.id,
+			},
+		});
+	}
+}
+
+/**
+ * Variant statuses as the JSON stored on a `StockSnapshot`, or nothing when
+ * the page listed none.
+ */
+function variantsJson(
+	variants: undefined | VariantAvailability[]
+): Prisma.InputJsonValue | undefined {
+	if (!variants?.length) return undefined;
+	return variants.map(({ name, status }) => ({ name, status }));
 }
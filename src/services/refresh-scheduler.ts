@@ -0,0 +1,373 @@
+import {
+	Availability,
+	normalizeAvailability,
+	STOCK_STATUSES,
+	StockStatus,
+	variantAvailability,
+	VariantAvailability,
+} from "../lib/availability.js";
+import { parsePrice, toMinorUnits } from "../lib/price-parser.js";
+import { findVariant, ProductVariant } from "../lib/variants.js";
+import { ProductService } from "./product-service.js";
+
+/**
+ * Looks up a batch of product URLs, reporting failures per URL. Batching
+ * lets dataset-backed platforms refresh with one snapshot.
+ */
+export type FetchProductDetails = (urls: string[]) => Promise<
+	Array<{
+		data?: { data: unknown; job_id?: string; method: string };
+		error?: string;
+		url: string;
+	}>
+>;
+
+interface RefreshError {
+	error: string;
+	productId: string;
+	url: string;
+}
+
+interface RefreshOptions {
+	defaultIntervalMs: number;
+	jitterRatio: number;
+	platformIntervalsMs: Record<string, number>;
+	tickMs: number;
+}
+
+interface RefreshRun {
+	checked: number;
+	errors: RefreshError[];
+	finishedAt?: Date;
+	skipped: number;
+	startedAt: Date;
+	updated: number;
+}
+
+interface TrackedProduct {
+	id: string;
+	platform: string;
+	prices: Array<{ createdAt: Date }>;
+	stock: Array<{ createdAt: Date }>;
+	tracking_type: string;
+	url: string;
+	variant: null | string;
+}
+
+/**
+ * Periodically refreshes every tracked product whose latest price or stock
+ * reading is older than its platform's interval, and records the new
+ * prices and stock statuses through `ProductService.updateAllProducts` so
+ * alerts fire as usual.
+ */
+export class RefreshScheduler {
+	private current: RefreshRun | undefined;
+	private inFlight: Promise<RefreshRun> | undefined;
+	private lastRefreshedByPlatform: Record<string, Date> = {};
+	private lastRun: RefreshRun | undefined;
+	private nextRunAt: Date | undefined;
+	private readonly options: RefreshOptions;
+	private startedAt: Date | undefined;
+	private timer: NodeJS.Timeout | undefined;
+
+	constructor(
+		private readonly productService: ProductService,
+		private readonly fetchDetails: FetchProductDetails,
+		options: Partial<RefreshOptions> = {}
+	) {
+		const minutes = (value: string | undefined, fallback: number) =>
+			Number(value || fallback) * 60 * 1000;
+
+		this.options = {
+			defaultIntervalMs:
+				options.defaultIntervalMs ??
+				minutes(process.env.REFRESH_INTERVAL_MINUTES, 360),
+			jitterRatio:
+				options.jitterRatio ??
+				Number(process.env.REFRESH_JITTER_RATIO || 0.1),
+			platformIntervalsMs:
+				options.platformIntervalsMs ??
+				parsePlatformIntervals(process.env.REFRESH_PLATFORM_INTERVALS),
+			tickMs:
+				options.tickMs ?? minutes(process.env.REFRESH_TICK_MINUTES, 5),
+		};
+	}
+
+	isRunning() {
+		return this.timer !== undefined;
+	}
+
+	/**
+	 * Refreshes all products that are due. Overlapping calls share the run
+	 * that is already in progress.
+	 */
+	async runOnce(force = false): Promise<RefreshRun> {
+		if (!this.inFlight) {
+			this.inFlight = this.refresh(force).finally(() => {
+				this.inFlight = undefined;
+			});
+		}
+		return await this.inFlight;
+	}
+
+	start() {
+		if (this.timer) return;
+		this.startedAt = new Date();
+		this.schedule();
+	}
+
+	status() {
+		return {
+			current_run: this.current ?? null,
+			interval_ms: {
+				default: this.options.defaultIntervalMs,
+				...this.options.platformIntervalsMs,
+			},
+			last_refreshed_by_platform: this.lastRefreshedByPlatform,
+			last_run: this.lastRun ?? null,
+			next_run_at: this.nextRunAt ?? null,
+			running: this.isRunning(),
+			started_at: this.startedAt ?? null,
+		};
+	}
+
+	stop() {
+		clearTimeout(this.timer);
+		this.timer = undefined;
+		this.nextRunAt = undefined;
+	}
+
+	private intervalFor(platform: string) {
+		return (
+			this.options.platformIntervalsMs[platform] ??
+			this.options.defaultIntervalMs
+		);
+	}
+
+	private isDue(product: TrackedProduct, now: Date) {
+		const latest = Math.max(
+			...[product.prices[0], product.stock[0]]
+				.filter((entry) => entry !== undefined)
+				.map((entry) => new Date(entry.createdAt).getTime())
+		);
+		if (!Number.isFinite(latest)) return true;
+		return now.getTime() - latest >= this.intervalFor(product.platform);
+	}
+
+	private async refresh(force: boolean): Promise<RefreshRun> {
+		const run: RefreshRun = {
+			checked: 0,
+			errors: [],
+			skipped: 0,
+			startedAt: new Date(),
+			updated: 0,
+		};
+		this.current = run;
+
+		try {
+			const products =
+				(await this.productService.getAllTrackedProducts()) as TrackedProduct[];
+			const due = products.filter(
+				(product) => force || this.isDue(product, run.startedAt)
+			);
+			run.skipped = products.length - due.length;
+
+			const updates: Parameters<ProductService["updateAllProducts"]>[0] =
+				[];
+			const lookups = await this.fetchDetails(
+				due.map((product) => product.url)
+			);
+			const byUrl = new Map(
+				lookups.map((lookup) => [lookup.url, lookup])
+			);
+
+			for (const product of due) {
+				run.checked++;
+				try {
+					const lookup = byUrl.get(product.url);
+					if (!lookup?.data) {
+						throw new Error(
+							lookup?.error || "No product details returned"
+						);
+					}
+					if (lookup.data.data === null && lookup.data.job_id) {
+						throw new Error(
+							`Dataset job ${lookup.data.job_id} is still running`
+						);
+					}
+					const details = product.variant
+						? selectVariant(lookup.data.data, product.variant)
+						: lookup.data.data;
+					const current = extractCurrentPrice(details);
+					const stock = extractStock(details);
+					// Out-of-stock pages often show no price; their stock
+					// status is still worth keeping for stock tracking.
+					if (
+						current === undefined &&
+						(product.tracking_type === "price" ||
+							stock.status === "unknown")
+					) {
+						throw new Error("No price found in product details");
+					}
+					updates.push({
+						currency: current?.currency,
+						currentPrice: current?.amount,
+						id: product.id,
+						stock_quantity: stock.quantity,
+						stock_status: stock.status,
+						variant_stock: stock.variants,
+					});
+					this.lastRefreshedByPlatform[product.platform] = new Date();
+				} catch (e: unknown) {
+					run.errors.push({
+						error:
+							e instanceof Error
+								? e.message
+								: "An unknown error occurred",
+						productId: product.id,
+						url: product.url,
+					});
+				}
+			}
+
+			if (updates.length > 0) {
+				await this.productService.updateAllProducts(updates);
+			}
+			run.updated = updates.length;
+		} finally {
+			run.finishedAt = new Date();
+			this.lastRun = run;
+			this.current = undefined;
+		}
+
+		return run;
+	}
+
+	private schedule() {
+		const jitter =
+			(Math.random() * 2 - 1) *
+			this.options.jitterRatio *
+			this.options.tickMs;
+		const delay = Math.max(0, this.options.tickMs + jitter);
+		this.nextRunAt = new Date(Date.now() + delay);
+		this.timer = setTimeout(async () => {
+			try {
+				await this.runOnce();
+			} catch (e: unknown) {
+				console.error(
+					"Scheduled refresh failed:",
+					(e as Error).message
+				);
+			}
+			if (this.timer) this.schedule();
+		}, delay);
+		this.timer.unref();
+	}
+}
+
+/**
+ * Reads a price in cents, and its currency when known, from a
+ * `ProductDetail` or the first record of a raw dataset snapshot.
+ */
+export function extractCurrentPrice(
+	data: unknown
+): { amount: number; currency?: string } | undefined {
+	const record = (Array.isArray(data) ? data[0] : data) as
+		| Record<string, unknown>
+		| undefined;
+	if (!record) return undefined;
+
+	const currency =
+		typeof record.currency === "string" && record.currency
+			? record.currency
+			: undefined;
+
+	for (const key of ["price", "final_price", "initial_price"]) {
+		const value = record[key];
+		const parsed =
+			typeof value === "number"
+				? { amount: value, currency: undefined }
+				: typeof value === "string"
+					? parsePrice(value)
+					: undefined;
+		if (parsed && Number.isFinite(parsed.amount)) {
+			return {
+				amount: toMinorUnits(parsed.amount),
+				currency: currency ?? parsed.currency,
+			};
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Reads the stock status of a `ProductDetail`, or of the first record of a
+ * raw dataset snapshot from its availability text, and that of each
+ * variant.
+ */
+export function extractStock(
+	data: unknown
+): { variants: VariantAvailability[] } & Availability {
+	const record = (Array.isArray(data) ? data[0] : data) as
+		| Record<string, unknown>
+		| undefined;
+	if (!record) return { status: "unknown", variants: [] };
+
+	const stock = record.stock as Availability | undefined;
+	const variants = variantAvailability(
+		Array.isArray(record.variants)
+			? (record.variants as Array<{ available?: boolean; name: string }>)
+			: undefined
+	);
+	return {
+		...(stock && STOCK_STATUSES.includes(stock.status as StockStatus)
+			? stock
+			: normalizeAvailability(record.availability)),
+		variants,
+	};
+}
+
+/**
+ * Narrows product details to one variant: its own price and stock status
+ * replace the product's where the page lists them. Throws when the page no
+ * longer lists the variant, so the refresh reports it instead of recording
+ * the price of another one.
+ */
+export function selectVariant(data: unknown, name: string) {
+	const record = (Array.isArray(data) ? data[0] : data) as
+		| Record<string, unknown>
+		| undefined;
+	const variant = findVariant(
+		Array.isArray(record?.variants)
+			? (record.variants as ProductVariant[])
+			: undefined,
+		name
+	);
+	if (!record || !variant) {
+		throw new Error(`Variant "${name}" not found in product details`);
+	}
+
+	return {
+		...record,
+		...(variant.price !== undefined ? { price: variant.price } : {}),
+		...(variant.available !== undefined
+			? { stock: normalizeAvailability(variant.available) }
+			: {}),
+		variants: [variant],
+	};
+}
+
+/**
+ * Parses `amazon=60,zara=180` (minutes) into per-platform intervals.
+ */
+function parsePlatformIntervals(value: string | undefined) {
+	const intervals: Record<string, number> = {};
+	for (const entry of (value || "").split(",")) {
+		const [platform, minutes] = entry.split("=").map((part) => part.trim());
+		if (platform && Number(minutes) > 0) {
+			intervals[platform] = Number(minutes) * 60 * 1000;
+		}
+	}
+	return intervals;
+}
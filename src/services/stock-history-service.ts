@@ -0,0 +1,184 @@
+import {
+	isInStock,
+	StockStatus,
+	VariantAvailability,
+} from "../lib/availability.js";
+import { prisma } from "../lib/prisma.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface StockChange {
+	at: string;
+	from: null | StockStatus;
+	quantity: null | number;
+	to: StockStatus;
+}
+
+interface StockPoint {
+	createdAt: Date;
+	quantity: null | number;
+	status: string;
+	variants: unknown;
+}
+
+/**
+ * Turns the `StockSnapshot` rows of tracked products into the moments they
+ * went in and out of stock.
+ */
+export class StockHistoryService {
+	async getStockHistory(
+		userId: string,
+		options: { days?: number; productIds?: string[] } = {}
+	) {
+		const products = await prisma.product.findMany({
+			include: {
+				stock: {
+					orderBy: { createdAt: "asc" },
+					select: {
+						createdAt: true,
+						quantity: true,
+						status: true,
+						variants: true,
+					},
+					...(options.days
+						? {
+								where: {
+									createdAt: {
+										gte: new Date(
+											Date.now() - options.days * DAY_MS
+										),
+									},
+								},
+							}
+						: {}),
+				},
+			},
+			where: {
+				User: { userId },
+				...(options.productIds?.length
+					? { id: { in: options.productIds } }
+					: {}),
+			},
+		});
+
+		return products.map(
+			(product: {
+				id: string;
+				in_stock: boolean | null;
+				name: string;
+				platform: string;
+				stock: StockPoint[];
+				tracking_type: string;
+				variant: null | string;
+			}) => ({
+				id: product.id,
+				in_stock: product.in_stock,
+				name: product.name,
+				platform: product.platform,
+				tracking_type: product.tracking_type,
+				variant: product.variant,
+				...computeStockHistory(product.stock),
+			})
+		);
+	}
+}
+
+/**
+ * Lists every change of stock status, with the quantity at the time, the
+ * current status and since when it holds, and the same per variant.
+ * Snapshots must be sorted oldest first.
+ */
+export function computeStockHistory(snapshots: StockPoint[]) {
+	if (snapshots.length === 0) {
+		return { data_points: 0 };
+	}
+
+	const changes = statusChanges(
+		snapshots.map((snapshot) => ({
+			at: snapshot.createdAt,
+			quantity: snapshot.quantity,
+			status: snapshot.status as StockStatus,
+		}))
+	);
+
+	const byVariant = new Map<
+		string,
+		Array<{ at: Date; quantity: null; status: StockStatus }>
+	>();
+	for (const snapshot of snapshots) {
+		const variants = Array.isArray(snapshot.variants)
+			? (snapshot.variants as VariantAvailability[])
+			: [];
+		for (const variant of variants) {
+			if (variant.status === "unknown") continue;
+			const points = byVariant.get(variant.name) ?? [];
+			points.push({
+				at: snapshot.createdAt,
+				quantity: null,
+				status: variant.status,
+			});
+			byVariant.set(variant.name, points);
+		}
+	}
+
+	const latest = snapshots[snapshots.length - 1];
+	return {
+		changes,
+		current: {
+			checked_at: latest.createdAt.toISOString(),
+			quantity: latest.quantity,
+			since: changes[changes.length - 1].at,
+			status: latest.status as StockStatus,
+		},
+		data_points: snapshots.length,
+		last_in_stock_at: lastSeen(snapshots, true),
+		last_out_of_stock_at: lastSeen(snapshots, false),
+		variants: [...byVariant.entries()].map(([name, points]) => {
+			const variantChanges = statusChanges(points);
+			return {
+				changes: variantChanges.map((change) => ({
+					at: change.at,
+					from: change.from,
+					to: change.to,
+				})),
+				name,
+				status: points[points.length - 1].status,
+			};
+		}),
+	};
+}
+
+/**
+ * When a status last held that does (`true`) or doesn't (`false`) let the
+ * item be bought.
+ */
+function lastSeen(snapshots: StockPoint[], inStock: boolean) {
+	const match = [...snapshots]
+		.reverse()
+		.find(
+			(snapshot) => isInStock(snapshot.status as StockStatus) === inStock
+		);
+	return match ? match.createdAt.toISOString() : null;
+}
+
+function statusChanges(
+	points: Array<{
+		at: Date;
+		quantity: null | number;
+		status: StockStatus;
+	}>
+) {
+	const changes: StockChange[] = [];
+	let previous: null | StockStatus = null;
+	for (const point of points) {
+		if (point.status === previous) continue;
+		changes.push({
+			at: point.at.toISOString(),
+			from: previous,
+			quantity: point.quantity,
+			to: point.status,
+		});
+		previous = point.status;
+	}
+	return changes;
+}